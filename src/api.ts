@@ -1,12 +1,29 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
 import { requestId } from 'hono/request-id';
+import { apiKeyAuth } from './auth';
 import { processQuery } from './run_query';
+import batch from './routes/batch';
+import conversations from './routes/conversations';
+import metrics from './routes/metrics';
+import prompts from './routes/prompts';
+import experiments from './routes/experiments';
+import review from './routes/review';
+import {
+  applyExperiment,
+  checkPromptSelection,
+  getBillingOptions,
+  internalError,
+  invalidRequest,
+  parseQueryRequestBody,
+  streamQueryResult,
+} from './routes/helpers';
 
 const app = new Hono();
 
 app.use('/*', cors());
 app.use('/*', requestId());
+app.use('/*', apiKeyAuth());
 
 app.get('/', (c) => {
   return c.json(
@@ -24,46 +41,42 @@ app.post('/completions', async (c) => {
   try {
     const body = await c.req.json();
     const requestId = c.get('requestId');
-    const { question, model } = body;
-
-    if (!question || typeof question !== 'string' || question.trim().length === 0) {
-      return c.json(
-        {
-          error: 'Invalid request',
-          message: 'Missing or invalid "question" field. It must be a string.',
-        },
-        400
-      );
+    const billing = getBillingOptions(c);
+
+    const parsed = parseQueryRequestBody(body);
+    if ('error' in parsed) {
+      return invalidRequest(c, parsed.error);
+    }
+
+    const promptError = await checkPromptSelection(parsed.promptId, parsed.promptVersion);
+    if (promptError) {
+      return invalidRequest(c, promptError);
     }
 
-    const modelToUse: string = model || String(process.env.DEFAULT_MODEL);
-    if (!modelToUse || modelToUse.trim().length === 0) {
-      return c.json(
-        {
-          error: 'Invalid request',
-          message: 'Missing or invalid "model" field. It must be a string.',
-        },
-        400
+    const { model, ...settings } = await applyExperiment(c, body, parsed);
+    const options = { ...billing, ...settings, bypassCache: parsed.bypassCache };
+
+    if (parsed.stream) {
+      return streamQueryResult(c, '/completions', (onAnswerDelta) =>
+        processQuery(parsed.question, model, requestId, { ...options, onAnswerDelta })
       );
     }
 
-    const result = await processQuery(question, modelToUse, requestId);
+    const result = await processQuery(parsed.question, model, requestId, options);
 
     return c.json(result, 200);
   } catch (error) {
-    console.error('Error in /completions endpoint:', error);
-
-    return c.json(
-      {
-        error: 'Internal server error',
-        message:
-          error instanceof Error ? error.message : 'An unexpected error occurred',
-      },
-      500
-    );
+    return internalError(c, '/completions', error);
   }
 });
 
+app.route('/completions/batch', batch);
+app.route('/conversations', conversations);
+app.route('/experiments', experiments);
+app.route('/metrics', metrics);
+app.route('/prompts', prompts);
+app.route('/review', review);
+
 app.notFound((c) => {
   console.error('404 Error:', {
     path: c.req.path,
@@ -0,0 +1,120 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { findApiKey, getApiKeys, type ApiKeyConfig } from './keys';
+import { checkRateLimit, getDailySpend, secondsUntilNextDay } from './limits';
+
+export * from './keys';
+export * from './limits';
+
+declare module 'hono' {
+  interface ContextVariableMap {
+    apiKey?: ApiKeyConfig;
+  }
+}
+
+/**
+ * Paths that stay reachable without a key (health check)
+ */
+const PUBLIC_PATHS = new Set(['/']);
+
+let warnedAuthDisabled = false;
+
+function readPresentedKey(c: Context): string | undefined {
+  const authorization = c.req.header('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return c.req.header('X-API-Key')?.trim() || undefined;
+}
+
+function tooManyRequests(c: Context, retryAfterSeconds: number, message: string): Response {
+  c.header('Retry-After', String(retryAfterSeconds));
+
+  return c.json(
+    {
+      error: 'Too Many Requests',
+      message,
+    },
+    429
+  );
+}
+
+/**
+ * Why a request was refused, and when to retry
+ */
+export interface LimitRefusal {
+  retryAfterSeconds: number;
+  message: string;
+}
+
+/**
+ * Count one request against the key's requests-per-minute limit and, for requests that spend money, check its
+ * daily budget. Returns the refusal when either is exceeded.
+ */
+export async function checkApiKeyLimits(
+  apiKey: ApiKeyConfig,
+  options: { spends: boolean }
+): Promise<LimitRefusal | undefined> {
+  const rateLimit = checkRateLimit(apiKey.id, apiKey.requests_per_minute);
+  if (!rateLimit.allowed) {
+    return {
+      retryAfterSeconds: rateLimit.retryAfterSeconds,
+      message: `Rate limit of ${apiKey.requests_per_minute} requests per minute exceeded`,
+    };
+  }
+
+  return options.spends ? checkDailyBudget(apiKey) : undefined;
+}
+
+/**
+ * Check the key's daily budget without counting a request against its rate limit
+ */
+export async function checkDailyBudget(apiKey: ApiKeyConfig): Promise<LimitRefusal | undefined> {
+  if ((await getDailySpend(apiKey.id)) >= apiKey.daily_budget_usd) {
+    return { retryAfterSeconds: secondsUntilNextDay(), message: `Daily budget of $${apiKey.daily_budget_usd} exceeded` };
+  }
+
+  return undefined;
+}
+
+/**
+ * API key authentication with per-key requests-per-minute limits and daily USD budgets.
+ * Keys come from the API keys file; when no file exists every request is allowed.
+ * Budgets only gate POST requests, since those are the ones that spend money.
+ */
+export function apiKeyAuth(): MiddlewareHandler {
+  return async (c, next) => {
+    if (PUBLIC_PATHS.has(c.req.path)) {
+      return next();
+    }
+
+    const keys = await getApiKeys();
+    if (!keys) {
+      if (!warnedAuthDisabled) {
+        console.warn('⚠️  No API keys file found, API key authentication is disabled');
+        warnedAuthDisabled = true;
+      }
+      return next();
+    }
+
+    const presentedKey = readPresentedKey(c);
+    const apiKey = presentedKey ? findApiKey(keys, presentedKey) : undefined;
+    if (!apiKey) {
+      return c.json(
+        {
+          error: 'Unauthorized',
+          message: 'Missing or invalid API key. Send it as "Authorization: Bearer <key>" or "X-API-Key".',
+        },
+        401
+      );
+    }
+
+    const refusal = await checkApiKeyLimits(apiKey, { spends: c.req.method === 'POST' });
+    if (refusal) {
+      return tooManyRequests(c, refusal.retryAfterSeconds, refusal.message);
+    }
+
+    c.set('apiKey', apiKey);
+    return next();
+  };
+}
@@ -0,0 +1,85 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_API_KEYS_FILE = path.join(__dirname, '..', '..', 'config', 'api-keys.json');
+
+export interface ApiKeyConfig {
+  /** Stable identifier recorded in metrics (never the key itself) */
+  id: string;
+  /** Team the key's spend is attributed to */
+  team?: string;
+  /** The key in plain text, or... */
+  key?: string;
+  /** ...its hex SHA-256 hash, so the config file doesn't have to hold the secret */
+  key_sha256?: string;
+  requests_per_minute: number;
+  daily_budget_usd: number;
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Load API keys from a JSON file of the form `{ "keys": [ApiKeyConfig, ...] }`.
+ * Returns undefined when the file does not exist, which disables authentication.
+ */
+export async function loadApiKeys(filePath: string): Promise<ApiKeyConfig[] | undefined> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    // No keys file, authentication is disabled
+    return undefined;
+  }
+
+  const config = JSON.parse(data);
+  if (!Array.isArray(config?.keys)) {
+    throw new Error(`API keys file must contain a "keys" array: ${filePath}`);
+  }
+
+  for (const entry of config.keys as ApiKeyConfig[]) {
+    if (!entry.id || (!entry.key && !entry.key_sha256)) {
+      throw new Error(`Each API key needs an "id" and a "key" or "key_sha256": ${filePath}`);
+    }
+    if (!(entry.requests_per_minute > 0) || !(entry.daily_budget_usd >= 0)) {
+      throw new Error(`API key "${entry.id}" needs a positive requests_per_minute and a daily_budget_usd`);
+    }
+  }
+
+  return config.keys;
+}
+
+let configuredKeys: Promise<ApiKeyConfig[] | undefined> | undefined;
+
+/**
+ * Override the configured API keys (pass nothing to reload from API_KEYS_FILE)
+ */
+export function setApiKeys(keys?: ApiKeyConfig[]): void {
+  configuredKeys = keys ? Promise.resolve(keys) : undefined;
+}
+
+/**
+ * Get the configured API keys, loaded once from API_KEYS_FILE (default `config/api-keys.json`)
+ */
+export function getApiKeys(): Promise<ApiKeyConfig[] | undefined> {
+  if (!configuredKeys) {
+    configuredKeys = loadApiKeys(process.env.API_KEYS_FILE || DEFAULT_API_KEYS_FILE);
+  }
+
+  return configuredKeys;
+}
+
+/**
+ * Find the configured key matching a presented key
+ */
+export function findApiKey(keys: ApiKeyConfig[], presentedKey: string): ApiKeyConfig | undefined {
+  const presentedHash = hashApiKey(presentedKey);
+
+  return keys.find((entry) => (entry.key_sha256 ?? hashApiKey(entry.key ?? '')) === presentedHash);
+}
@@ -0,0 +1,93 @@
+import { readMetrics } from '../logging';
+
+const RATE_LIMIT_WINDOW_MS = 60_000;
+
+const requestTimes = new Map<string, number[]>();
+const dailySpend = new Map<string, number>();
+const loadedDays = new Map<string, Promise<void>>();
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Seconds until the next UTC midnight, when daily budgets reset
+ */
+export function secondsUntilNextDay(now = new Date()): number {
+  const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((nextDay - now.getTime()) / 1000);
+}
+
+/**
+ * Sliding-window rate limit: record a request for `keyId` if it is within `limit` requests per minute.
+ * Returns the number of seconds to wait when the limit is exceeded.
+ */
+export function checkRateLimit(keyId: string, limit: number, now = Date.now()): { allowed: boolean; retryAfterSeconds: number } {
+  const recent = (requestTimes.get(keyId) ?? []).filter((time) => time > now - RATE_LIMIT_WINDOW_MS);
+
+  if (recent.length >= limit) {
+    requestTimes.set(keyId, recent);
+    return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + RATE_LIMIT_WINDOW_MS - now) / 1000)) };
+  }
+
+  recent.push(now);
+  requestTimes.set(keyId, recent);
+  return { allowed: true, retryAfterSeconds: 0 };
+}
+
+/**
+ * Load a day's spend per key from that day's metrics log files, so budgets survive restarts
+ */
+function loadDailySpend(date: string): Promise<void> {
+  let loaded = loadedDays.get(date);
+  if (!loaded) {
+    loaded = (async () => {
+      for await (const metrics of readMetrics({ date })) {
+        if (metrics.api_key_id && metrics.timestamp.startsWith(date)) {
+          const key = `${metrics.api_key_id}:${date}`;
+          dailySpend.set(key, (dailySpend.get(key) ?? 0) + metrics.estimated_cost_usd);
+        }
+      }
+    })();
+    loadedDays.set(date, loaded);
+  }
+
+  return loaded;
+}
+
+/**
+ * Total estimated spend for a key so far today (UTC)
+ */
+export async function getDailySpend(keyId: string, now = new Date()): Promise<number> {
+  const date = toDateKey(now);
+  await loadDailySpend(date);
+
+  return dailySpend.get(`${keyId}:${date}`) ?? 0;
+}
+
+/**
+ * Add a request's cost to its key's spend for today. `log` writes the request's metrics; it runs only once today's
+ * spend has been loaded, so the load can't also count the new entry.
+ */
+export async function recordApiKeySpend(
+  keyId: string,
+  costUsd: number,
+  log: () => Promise<void>,
+  now = new Date()
+): Promise<void> {
+  const date = toDateKey(now);
+  await loadDailySpend(date);
+  await log();
+
+  const key = `${keyId}:${date}`;
+  dailySpend.set(key, (dailySpend.get(key) ?? 0) + costUsd);
+}
+
+/**
+ * Clear rate-limit and spend state (for tests)
+ */
+export function resetApiKeyLimits(): void {
+  requestTimes.clear();
+  dailySpend.clear();
+  loadedDays.clear();
+}
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { aggregateMetrics, type MetricsAggregate } from './metrics_query';
+import { processQuery, type ProcessQueryOptions } from './run_query';
+import type { QueryResult } from './types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export const MAX_BATCH_CONCURRENCY = 16;
+
+export interface BatchItem {
+  id?: string;
+  question: string;
+  model?: string;
+}
+
+export interface BatchItemResult {
+  index: number;
+  id?: string;
+  result?: QueryResult;
+  error?: string;
+}
+
+export interface BatchSummary extends MetricsAggregate {
+  /** Items that could not be processed at all (no QueryResult) */
+  failed_count: number;
+  blocked_count: number;
+  error_count: number;
+  duration_ms: number;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  /** Model for items that don't name one */
+  model: string;
+  concurrency?: number;
+  /** Prefix for per-item request ids (`<prefix>-<item id or index>`); a fresh UUID by default */
+  requestIdPrefix?: string;
+  /** Called once per item, in completion order */
+  onResult?: (itemResult: BatchItemResult) => void | Promise<void>;
+  onProgress?: (progress: BatchProgress) => void;
+  /** Called before each item is run; a returned message fails the item with that error instead */
+  admitItem?: (item: BatchItem, index: number) => Promise<string | undefined>;
+  /** Options passed to processQuery for every item */
+  queryOptions?: Omit<ProcessQueryOptions, 'onAnswerDelta' | 'history'>;
+}
+
+/**
+ * Turn a parsed JSON value into a batch item. Accepts plain strings, `{ question }` objects,
+ * and backlog-style `{ request_id, title, body }` entries.
+ */
+function toBatchItem(value: unknown, index: number): BatchItem {
+  if (typeof value === 'string') {
+    return { question: value };
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const question = record.question ?? record.body;
+    if (typeof question === 'string') {
+      const id = record.id ?? record.request_id;
+      return {
+        id: id === undefined ? undefined : String(id),
+        question,
+        model: typeof record.model === 'string' ? record.model : undefined,
+      };
+    }
+  }
+
+  throw new Error(`Item ${index} must be a string or an object with a "question" (or "body") string`);
+}
+
+/**
+ * Parse batch input given as a JSON array or as JSONL (one item per line)
+ */
+export function parseBatchInput(text: string): BatchItem[] {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    return [];
+  }
+
+  if (trimmed.startsWith('[')) {
+    const values = JSON.parse(trimmed);
+    return (values as unknown[]).map(toBatchItem);
+  }
+
+  return trimmed
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      try {
+        return toBatchItem(JSON.parse(line), index);
+      } catch (error) {
+        throw new Error(`Invalid JSONL on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    });
+}
+
+/**
+ * Summarize a batch run: cost, token and latency aggregates plus blocked/error/failed counts
+ */
+export function summarizeBatch(itemResults: BatchItemResult[], durationMs: number): BatchSummary {
+  const metrics = itemResults.flatMap((itemResult) => (itemResult.result ? [itemResult.result.metrics] : []));
+  const aggregate = aggregateMetrics(metrics);
+
+  return {
+    ...aggregate,
+    failed_count: itemResults.filter((itemResult) => !itemResult.result).length,
+    blocked_count: metrics.filter((entry) => entry.outcome === 'blocked').length,
+    error_count: metrics.filter((entry) => entry.outcome === 'error').length,
+    duration_ms: durationMs,
+  };
+}
+
+/**
+ * Run many questions through processQuery with bounded concurrency. A failing item is recorded
+ * with its error and never stops the rest of the batch. Results are returned in input order.
+ */
+export async function runBatch(
+  items: BatchItem[],
+  options: BatchOptions
+): Promise<{ results: BatchItemResult[]; summary: BatchSummary }> {
+  const startTime = Date.now();
+  const concurrency = Math.min(Math.max(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, 1), MAX_BATCH_CONCURRENCY);
+  const results: BatchItemResult[] = new Array(items.length);
+  const requestIdPrefix = options.requestIdPrefix ?? randomUUID();
+  let nextIndex = 0;
+  let completed = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const item = items[index];
+
+      let itemResult: BatchItemResult;
+      try {
+        const refusal = await options.admitItem?.(item, index);
+        if (refusal) {
+          throw new Error(refusal);
+        }
+
+        const requestId = `${requestIdPrefix}-${item.id ?? index}`;
+        const result = await processQuery(item.question, item.model || options.model, requestId, options.queryOptions);
+        itemResult = { index, id: item.id, result };
+      } catch (error) {
+        itemResult = { index, id: item.id, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      results[index] = itemResult;
+      completed++;
+      await options.onResult?.(itemResult);
+      options.onProgress?.({ completed, total: items.length });
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+
+  return { results, summary: summarizeBatch(results, Date.now() - startTime) };
+}
@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import { DEFAULT_BATCH_CONCURRENCY, parseBatchInput, runBatch } from './batch';
+
+dotenv.config();
+
+const USAGE = `Usage: pnpm batch <input.json|input.jsonl> [options]
+
+Options:
+  -o, --output <file>       Write result JSONL here (default: stdout)
+  -s, --summary <file>      Also write the summary JSON here
+  -m, --model <model>       Model for items without one (default: DEFAULT_MODEL)
+  -c, --concurrency <n>     Items processed in parallel (default: ${DEFAULT_BATCH_CONCURRENCY})
+  -h, --help                Show this help`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      summary: { type: 'string', short: 's' },
+      model: { type: 'string', short: 'm' },
+      concurrency: { type: 'string', short: 'c' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const model = values.model || process.env.DEFAULT_MODEL;
+  if (!model) {
+    throw new Error('Pass --model or set DEFAULT_MODEL');
+  }
+
+  const items = parseBatchInput(await fs.readFile(positionals[0], 'utf-8'));
+  const output = values.output ? await fs.open(values.output, 'w') : undefined;
+
+  console.error(`📦 Processing ${items.length} items with ${model}...`);
+
+  try {
+    const { summary } = await runBatch(items, {
+      model,
+      concurrency: values.concurrency ? Number.parseInt(values.concurrency, 10) : undefined,
+      onResult: async (itemResult) => {
+        const line = `${JSON.stringify(itemResult)}\n`;
+        if (output) {
+          await output.write(line);
+        } else {
+          process.stdout.write(line);
+        }
+      },
+      onProgress: ({ completed, total }) => {
+        console.error(`   ${completed}/${total} done`);
+      },
+    });
+
+    if (values.summary) {
+      await fs.writeFile(values.summary, JSON.stringify(summary, null, 2), 'utf-8');
+    }
+
+    console.error('\n📊 Batch Summary:');
+    console.error(`   Items: ${summary.request_count + summary.failed_count}`);
+    console.error(`   Blocked: ${summary.blocked_count}, Errors: ${summary.error_count}, Failed: ${summary.failed_count}`);
+    console.error(`   Total cost: $${summary.cost_usd.total.toFixed(6)}`);
+    console.error(`   Latency p50/p95/p99: ${summary.latency_ms.p50}/${summary.latency_ms.p95}/${summary.latency_ms.p99} ms`);
+  } finally {
+    await output?.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Batch failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
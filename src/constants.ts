@@ -3,3 +3,10 @@ export enum RiskLevel {
     MEDIUM = 'Medium',
     HIGH = 'High',
 }
+
+/**
+ * Categories a SupportResponse may be assigned to
+ */
+export const SUPPORT_CATEGORIES = ['billing', 'technical', 'account', 'product', 'shipping', 'refund', 'other'] as const;
+
+export type SupportCategory = (typeof SUPPORT_CATEGORIES)[number];
@@ -0,0 +1,32 @@
+import { estimateTokens } from '../metrics';
+import type { ChatMessage } from '../providers';
+import type { ConversationTurn } from '../types';
+
+/**
+ * Turn prior conversation turns into chat messages, keeping the most recent turns that fit in `tokenBudget`.
+ * Blocked and failed turns are not replayed to the model.
+ */
+export function buildHistoryMessages(turns: ConversationTurn[], tokenBudget: number): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let usedTokens = 0;
+
+  for (const turn of [...turns].reverse()) {
+    if (!turn.safety.passed || turn.response.tags.includes('error')) {
+      continue;
+    }
+
+    const pair: ChatMessage[] = [
+      { role: 'user', content: turn.question },
+      { role: 'assistant', content: JSON.stringify(turn.response) },
+    ];
+    const turnTokens = pair.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    if (usedTokens + turnTokens > tokenBudget) {
+      break;
+    }
+
+    usedTokens += turnTokens;
+    messages.unshift(...pair);
+  }
+
+  return messages;
+}
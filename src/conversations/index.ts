@@ -0,0 +1,73 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { processQuery, type ProcessQueryOptions } from '../run_query';
+import { getPiiPolicy, maskPii, sanitizeQuery } from '../safety';
+import type { Conversation, QueryResult } from '../types';
+import { buildHistoryMessages } from './history';
+import { createFileConversationStore, createInMemoryConversationStore, type ConversationStore } from './store';
+
+export * from './history';
+export * from './store';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_CONVERSATIONS_DIR = path.join(__dirname, '..', '..', 'conversations');
+
+/**
+ * Approximate token budget for prior turns replayed to the model
+ */
+const HISTORY_TOKEN_BUDGET = Number.parseInt(process.env.CONVERSATION_HISTORY_TOKENS ?? '2000', 10);
+
+let configuredStore: ConversationStore | undefined;
+
+/**
+ * Get the conversation store, chosen by CONVERSATION_STORE (`memory` by default, or `file`)
+ */
+export function getConversationStore(): ConversationStore {
+  if (!configuredStore) {
+    configuredStore = process.env.CONVERSATION_STORE === 'file'
+      ? createFileConversationStore(process.env.CONVERSATIONS_DIR || DEFAULT_CONVERSATIONS_DIR)
+      : createInMemoryConversationStore();
+  }
+
+  return configuredStore;
+}
+
+/**
+ * Override the conversation store (pass nothing to go back to env-based selection)
+ */
+export function setConversationStore(store?: ConversationStore): void {
+  configuredStore = store;
+}
+
+/**
+ * Answer a follow-up question in a conversation, replaying prior turns as context, and store the new turn with
+ * PII masked per PII_LOG_POLICY, like the logs and the review queue
+ */
+export async function processConversationTurn(
+  conversation: Conversation,
+  question: string,
+  model: string,
+  requestId?: string,
+  options: ProcessQueryOptions = {}
+): Promise<QueryResult> {
+  const result = await processQuery(question, model, requestId, {
+    ...options,
+    history: buildHistoryMessages(conversation.turns, HISTORY_TOKEN_BUDGET),
+    conversationId: conversation.id,
+  });
+
+  const { logs, entities } = getPiiPolicy();
+  const mask = (text: string): string => (logs === 'mask' ? maskPii(text, entities) : text);
+
+  await getConversationStore().appendTurn(conversation.id, {
+    request_id: requestId,
+    timestamp: result.metrics.timestamp,
+    question: mask(sanitizeQuery(question)),
+    response: { ...result.response, answer: mask(result.response.answer), actions: result.response.actions.map(mask) },
+    safety: result.safety,
+  });
+
+  return result;
+}
@@ -0,0 +1,122 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import type { Conversation, ConversationTurn } from '../types';
+
+/**
+ * Storage backend for conversation sessions
+ */
+export interface ConversationStore {
+  create(): Promise<Conversation>;
+  get(id: string): Promise<Conversation | undefined>;
+  appendTurn(id: string, turn: ConversationTurn): Promise<Conversation>;
+}
+
+function newConversation(): Conversation {
+  const now = new Date().toISOString();
+
+  return { id: randomUUID(), created_at: now, updated_at: now, turns: [] };
+}
+
+/**
+ * Keep conversations in process memory (lost on restart)
+ */
+export function createInMemoryConversationStore(): ConversationStore {
+  const conversations = new Map<string, Conversation>();
+
+  return {
+    async create(): Promise<Conversation> {
+      const conversation = newConversation();
+      conversations.set(conversation.id, conversation);
+      return conversation;
+    },
+
+    async get(id: string): Promise<Conversation | undefined> {
+      return conversations.get(id);
+    },
+
+    async appendTurn(id: string, turn: ConversationTurn): Promise<Conversation> {
+      const conversation = conversations.get(id);
+      if (!conversation) {
+        throw new Error(`Conversation not found: ${id}`);
+      }
+
+      conversation.turns.push(turn);
+      conversation.updated_at = turn.timestamp;
+      return conversation;
+    },
+  };
+}
+
+/**
+ * Keep each conversation in its own JSON file under `directory`
+ */
+export function createFileConversationStore(directory: string): ConversationStore {
+  function conversationPath(id: string): string {
+    // Ids are generated UUIDs; reject anything else so a request cannot point outside the directory
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+      throw new Error(`Invalid conversation id: ${id}`);
+    }
+
+    return path.join(directory, `${id}.json`);
+  }
+
+  async function save(conversation: Conversation): Promise<void> {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(conversationPath(conversation.id), JSON.stringify(conversation, null, 2), 'utf-8');
+  }
+
+  const conversationLocks = new Map<string, Promise<unknown>>();
+
+  /**
+   * Run read-modify-write updates of one conversation one at a time, so concurrent turns are not lost
+   */
+  async function withConversationLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+    const previous = conversationLocks.get(id) ?? Promise.resolve();
+    const next = previous.then(update, update);
+    const settled = next.catch(() => undefined);
+    conversationLocks.set(id, settled);
+
+    try {
+      return await next;
+    } finally {
+      if (conversationLocks.get(id) === settled) {
+        conversationLocks.delete(id);
+      }
+    }
+  }
+
+  async function load(id: string): Promise<Conversation | undefined> {
+    try {
+      const data = await fs.readFile(conversationPath(id), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      // Unknown id or file doesn't exist
+      return undefined;
+    }
+  }
+
+  return {
+    async create(): Promise<Conversation> {
+      const conversation = newConversation();
+      await save(conversation);
+      return conversation;
+    },
+
+    get: load,
+
+    appendTurn(id: string, turn: ConversationTurn): Promise<Conversation> {
+      return withConversationLock(id, async () => {
+        const conversation = await load(id);
+        if (!conversation) {
+          throw new Error(`Conversation not found: ${id}`);
+        }
+
+        conversation.turns.push(turn);
+        conversation.updated_at = turn.timestamp;
+        await save(conversation);
+        return conversation;
+      });
+    },
+  };
+}
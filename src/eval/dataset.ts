@@ -0,0 +1,89 @@
+import { promises as fs } from 'fs';
+import { SUPPORT_CATEGORIES, type SupportCategory } from '../constants';
+
+/**
+ * Whether a golden question should be answered or refused by the safety checks
+ */
+export type ExpectedSafety = 'allowed' | 'blocked';
+
+/**
+ * A question with the answer properties a good response must have. Every expectation is optional.
+ */
+export interface GoldenCase {
+  id: string;
+  question: string;
+  expected_category?: SupportCategory;
+  /** Tags the response must all carry */
+  required_tags?: string[];
+  /** Facts the answer or actions must mention (case-insensitive substrings) */
+  must_mention?: string[];
+  expected_safety?: ExpectedSafety;
+}
+
+function toGoldenCase(value: unknown, index: number): GoldenCase {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Case ${index} must be an object`);
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.question !== 'string' || record.question.trim().length === 0) {
+    throw new Error(`Case ${index} needs a "question" string`);
+  }
+  if (record.expected_category !== undefined && !SUPPORT_CATEGORIES.includes(record.expected_category as SupportCategory)) {
+    throw new Error(`Case ${index} has an unknown "expected_category": ${record.expected_category}`);
+  }
+  for (const field of ['required_tags', 'must_mention'] as const) {
+    const list = record[field];
+    if (list !== undefined && (!Array.isArray(list) || list.some((entry) => typeof entry !== 'string'))) {
+      throw new Error(`Case ${index} "${field}" must be a list of strings`);
+    }
+  }
+  if (record.expected_safety !== undefined && record.expected_safety !== 'allowed' && record.expected_safety !== 'blocked') {
+    throw new Error(`Case ${index} "expected_safety" must be "allowed" or "blocked"`);
+  }
+
+  return {
+    ...(record as Omit<GoldenCase, 'id'>),
+    id: record.id === undefined ? String(index) : String(record.id),
+  };
+}
+
+/**
+ * Parse a golden dataset given as a JSON array or as JSONL (one case per line). Cases without an `id` are
+ * numbered by position; ids must be unique so runs can be compared case by case.
+ */
+export function parseGoldenDataset(text: string): GoldenCase[] {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    return [];
+  }
+
+  const values: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .map((line, index) => {
+          try {
+            return JSON.parse(line);
+          } catch (error) {
+            throw new Error(`Invalid JSONL on line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        });
+
+  const cases = values.map(toGoldenCase);
+  const seen = new Set<string>();
+  for (const goldenCase of cases) {
+    if (seen.has(goldenCase.id)) {
+      throw new Error(`Duplicate case id: ${goldenCase.id}`);
+    }
+    seen.add(goldenCase.id);
+  }
+
+  return cases;
+}
+
+export async function loadGoldenDataset(filePath: string): Promise<GoldenCase[]> {
+  return parseGoldenDataset(await fs.readFile(filePath, 'utf-8'));
+}
@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { runBatch, type BatchProgress } from '../batch';
+import type { GoldenCase } from './dataset';
+import { scoreCase, summarizeEval, type EvalCaseResult, type EvalSummary } from './score';
+
+export * from './dataset';
+export * from './score';
+export * from './report';
+
+/**
+ * A scored run of a golden dataset, saved as JSON so later runs can be diffed against it
+ */
+export interface EvalRun {
+  id: string;
+  created_at: string;
+  /** Dataset file the cases came from */
+  dataset?: string;
+  model: string;
+  /** Template the answers were generated with (the requested one, or the version that answered) */
+  prompt_id?: string;
+  prompt_version?: string;
+  summary: EvalSummary;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  model: string;
+  promptId?: string;
+  promptVersion?: string;
+  dataset?: string;
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/**
+ * Run every golden case through processQuery and score the answers. The response cache is bypassed and nothing is
+ * sent to the review queue; queries are logged like any other, under request ids prefixed with `eval-<run id>`.
+ */
+export async function runEval(cases: GoldenCase[], options: EvalOptions): Promise<EvalRun> {
+  const id = randomUUID();
+  const { results } = await runBatch(
+    cases.map((goldenCase) => ({ id: goldenCase.id, question: goldenCase.question })),
+    {
+      model: options.model,
+      concurrency: options.concurrency,
+      requestIdPrefix: `eval-${id}`,
+      onProgress: options.onProgress,
+      queryOptions: {
+        promptId: options.promptId,
+        promptVersion: options.promptVersion,
+        bypassCache: true,
+        skipReview: true,
+      },
+    }
+  );
+
+  const answered = results.find((itemResult) => itemResult.result?.metrics.prompt_id)?.result?.metrics;
+  const scored = results.map((itemResult, index) => scoreCase(cases[index], itemResult));
+
+  return {
+    id,
+    created_at: new Date().toISOString(),
+    dataset: options.dataset,
+    model: options.model,
+    prompt_id: answered?.prompt_id ?? options.promptId,
+    prompt_version: answered?.prompt_version ?? options.promptVersion,
+    summary: summarizeEval(scored),
+    cases: scored,
+  };
+}
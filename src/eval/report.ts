@@ -0,0 +1,170 @@
+import type { EvalCaseResult, EvalSummary } from './score';
+import type { EvalRun } from './index';
+
+/**
+ * Summary metrics compared between runs, and whether a higher value is better
+ */
+const COMPARED_METRICS: Array<[string, (summary: EvalSummary) => number, 'higher' | 'lower']> = [
+  ['pass_rate', (summary) => summary.pass_rate, 'higher'],
+  ['category_accuracy', (summary) => summary.category_accuracy, 'higher'],
+  ['tag_coverage', (summary) => summary.tag_coverage, 'higher'],
+  ['fact_coverage', (summary) => summary.fact_coverage, 'higher'],
+  ['schema_validity', (summary) => summary.schema_validity, 'higher'],
+  ['first_attempt_validity', (summary) => summary.first_attempt_validity, 'higher'],
+  ['safety_precision', (summary) => summary.safety.precision, 'higher'],
+  ['safety_recall', (summary) => summary.safety.recall, 'higher'],
+  ['cost_usd_average', (summary) => summary.cost_usd.average, 'lower'],
+  ['latency_ms_p50', (summary) => summary.latency_ms.p50, 'lower'],
+  ['latency_ms_p95', (summary) => summary.latency_ms.p95, 'lower'],
+];
+
+export interface EvalMetricDiff {
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  /** Moved in the worse direction */
+  worse: boolean;
+}
+
+export interface EvalCaseDiff {
+  id: string;
+  baseline: EvalCaseResult;
+  current: EvalCaseResult;
+}
+
+export interface EvalDiff {
+  baseline: Pick<EvalRun, 'id' | 'model' | 'prompt_id' | 'prompt_version'>;
+  current: Pick<EvalRun, 'id' | 'model' | 'prompt_id' | 'prompt_version'>;
+  metrics: EvalMetricDiff[];
+  /** Cases that passed in the baseline and fail now */
+  regressions: EvalCaseDiff[];
+  /** Cases that failed in the baseline and pass now */
+  fixes: EvalCaseDiff[];
+  /** Case ids only in the current run, and only in the baseline */
+  added: string[];
+  removed: string[];
+}
+
+function describeRun(run: EvalRun): EvalDiff['baseline'] {
+  return { id: run.id, model: run.model, prompt_id: run.prompt_id, prompt_version: run.prompt_version };
+}
+
+/**
+ * Compare a run with a saved baseline run of the same dataset, metric by metric and case by case
+ */
+export function diffEvalRuns(baseline: EvalRun, current: EvalRun): EvalDiff {
+  const baselineCases = new Map(baseline.cases.map((caseResult) => [caseResult.id, caseResult]));
+  const currentIds = new Set(current.cases.map((caseResult) => caseResult.id));
+  const regressions: EvalCaseDiff[] = [];
+  const fixes: EvalCaseDiff[] = [];
+
+  for (const caseResult of current.cases) {
+    const baselineCase = baselineCases.get(caseResult.id);
+    if (baselineCase && baselineCase.passed && !caseResult.passed) {
+      regressions.push({ id: caseResult.id, baseline: baselineCase, current: caseResult });
+    } else if (baselineCase && !baselineCase.passed && caseResult.passed) {
+      fixes.push({ id: caseResult.id, baseline: baselineCase, current: caseResult });
+    }
+  }
+
+  return {
+    baseline: describeRun(baseline),
+    current: describeRun(current),
+    metrics: COMPARED_METRICS.map(([metric, read, better]) => {
+      const delta = read(current.summary) - read(baseline.summary);
+      return {
+        metric,
+        baseline: read(baseline.summary),
+        current: read(current.summary),
+        delta,
+        worse: better === 'higher' ? delta < 0 : delta > 0,
+      };
+    }),
+    regressions,
+    fixes,
+    added: current.cases.filter((caseResult) => !baselineCases.has(caseResult.id)).map((caseResult) => caseResult.id),
+    removed: baseline.cases.filter((caseResult) => !currentIds.has(caseResult.id)).map((caseResult) => caseResult.id),
+  };
+}
+
+function formatValue(metric: string, value: number): string {
+  if (metric.startsWith('cost_usd')) {
+    return `$${value.toFixed(6)}`;
+  }
+  if (metric.startsWith('latency_ms')) {
+    return `${Math.round(value)} ms`;
+  }
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDelta(metric: string, delta: number): string {
+  const sign = delta > 0 ? '+' : delta < 0 ? '-' : '±';
+  return `${sign}${formatValue(metric, Math.abs(delta))}`;
+}
+
+/**
+ * What went wrong in a failing case, e.g. `category billing (expected refund); missing facts: 30 days`
+ */
+function describeFailure(caseResult: EvalCaseResult): string {
+  const problems: string[] = [];
+  if (caseResult.outcome === 'failed' || caseResult.outcome === 'error') {
+    problems.push(caseResult.error ? `${caseResult.outcome}: ${caseResult.error}` : caseResult.outcome);
+  }
+  if (caseResult.blocked && caseResult.expected_safety !== 'blocked') {
+    problems.push('blocked');
+  } else if (!caseResult.blocked && caseResult.expected_safety === 'blocked') {
+    problems.push('allowed (expected blocked)');
+  }
+  if (caseResult.category_correct === false && caseResult.category) {
+    problems.push(`category ${caseResult.category} (expected ${caseResult.expected_category})`);
+  }
+  if (caseResult.missing_tags.length > 0) {
+    problems.push(`missing tags: ${caseResult.missing_tags.join(', ')}`);
+  }
+  if (caseResult.missing_facts.length > 0) {
+    problems.push(`missing facts: ${caseResult.missing_facts.join(', ')}`);
+  }
+  return problems.join('; ');
+}
+
+function formatRun(run: EvalDiff['baseline']): string {
+  const prompt = run.prompt_id ? ` · prompt ${run.prompt_id}${run.prompt_version ? `@${run.prompt_version}` : ''}` : '';
+  return `\`${run.id}\` (${run.model}${prompt})`;
+}
+
+/**
+ * Render a diff as a Markdown report
+ */
+export function formatEvalDiff(diff: EvalDiff): string {
+  const lines = [
+    '# Eval Regression Report',
+    '',
+    `- Baseline: ${formatRun(diff.baseline)}`,
+    `- Current: ${formatRun(diff.current)}`,
+    '',
+    '| Metric | Baseline | Current | Change |',
+    '|--------|----------|---------|--------|',
+    ...diff.metrics.map(
+      ({ metric, baseline, current, delta, worse }) =>
+        `| ${metric} | ${formatValue(metric, baseline)} | ${formatValue(metric, current)} | ${formatDelta(metric, delta)}${worse ? ' ⚠️' : ''} |`
+    ),
+    '',
+    `## Regressions (${diff.regressions.length})`,
+    '',
+    ...(diff.regressions.length > 0
+      ? diff.regressions.map(({ id, current }) => `- \`${id}\`: ${describeFailure(current)}`)
+      : ['None']),
+    '',
+    `## Fixes (${diff.fixes.length})`,
+    '',
+    ...(diff.fixes.length > 0 ? diff.fixes.map(({ id }) => `- \`${id}\``) : ['None']),
+  ];
+
+  if (diff.added.length > 0 || diff.removed.length > 0) {
+    lines.push('', '## Dataset Changes', '');
+    lines.push(...diff.added.map((id) => `- Added \`${id}\``), ...diff.removed.map((id) => `- Removed \`${id}\``));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
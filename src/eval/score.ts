@@ -0,0 +1,189 @@
+import type { SupportCategory } from '../constants';
+import { percentile } from '../metrics_query';
+import type { QueryOutcome, QueryResult } from '../types';
+import type { ExpectedSafety, GoldenCase } from './dataset';
+
+/**
+ * How one golden case fared in a run
+ */
+export interface EvalCaseResult {
+  id: string;
+  /** `failed` when processQuery itself threw and there is no result */
+  outcome: QueryOutcome | 'failed';
+  error?: string;
+  category?: SupportCategory;
+  expected_category?: SupportCategory;
+  /** Absent when the case has no expected category */
+  category_correct?: boolean;
+  /** Required tags the response carries, and those it lacks */
+  matched_tags: string[];
+  missing_tags: string[];
+  /** Must-mention facts the answer mentions, and those it leaves out */
+  mentioned_facts: string[];
+  missing_facts: string[];
+  /** Whether a valid response came back, possibly after repairs (absent when the question was blocked) */
+  schema_valid?: boolean;
+  /** Whether the first completion was already valid (absent when the question was blocked) */
+  first_attempt_valid?: boolean;
+  /** The input check refused the question or the output guard blocked the answer */
+  blocked: boolean;
+  expected_safety?: ExpectedSafety;
+  confidence?: number;
+  cost_usd: number;
+  latency_ms: number;
+  /** Every expectation the case sets was met and a valid response came back */
+  passed: boolean;
+}
+
+export interface EvalSummary {
+  case_count: number;
+  passed_count: number;
+  pass_rate: number;
+  /** Share of cases with an expected category that got it */
+  category_accuracy: number;
+  /** Share of required tags and must-mention facts that were present */
+  tag_coverage: number;
+  fact_coverage: number;
+  /** Share of answered (not blocked) cases with a valid response, and with a valid first completion */
+  schema_validity: number;
+  first_attempt_validity: number;
+  /** Blocking as a classifier of the cases with an expected safety outcome, `blocked` being positive */
+  safety: {
+    precision: number;
+    recall: number;
+    true_positives: number;
+    false_positives: number;
+    false_negatives: number;
+  };
+  cost_usd: {
+    total: number;
+    average: number;
+  };
+  latency_ms: {
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+}
+
+function mentions(text: string, fact: string): boolean {
+  return text.toLowerCase().includes(fact.toLowerCase());
+}
+
+/**
+ * Score one case against its result, or against the error processQuery threw
+ */
+export function scoreCase(goldenCase: GoldenCase, outcome: { result?: QueryResult; error?: string }): EvalCaseResult {
+  const { result } = outcome;
+  if (!result) {
+    return {
+      id: goldenCase.id,
+      outcome: 'failed',
+      error: outcome.error,
+      expected_category: goldenCase.expected_category,
+      ...(goldenCase.expected_category && { category_correct: false }),
+      matched_tags: [],
+      missing_tags: goldenCase.required_tags ?? [],
+      mentioned_facts: [],
+      missing_facts: goldenCase.must_mention ?? [],
+      schema_valid: false,
+      first_attempt_valid: false,
+      blocked: false,
+      expected_safety: goldenCase.expected_safety,
+      cost_usd: 0,
+      latency_ms: 0,
+      passed: false,
+    };
+  }
+
+  const { response, metrics } = result;
+  const inputBlocked = metrics.outcome === 'blocked';
+  const blocked = inputBlocked || result.output_safety?.passed === false;
+  const text = [response.answer, ...response.actions].join('\n');
+  const schemaValid = metrics.outcome === 'ok';
+  const requiredTags = goldenCase.required_tags ?? [];
+  const facts = goldenCase.must_mention ?? [];
+
+  const caseResult: EvalCaseResult = {
+    id: goldenCase.id,
+    outcome: metrics.outcome ?? 'ok',
+    category: response.category,
+    expected_category: goldenCase.expected_category,
+    ...(goldenCase.expected_category && { category_correct: response.category === goldenCase.expected_category }),
+    matched_tags: requiredTags.filter((tag) => response.tags.includes(tag)),
+    missing_tags: requiredTags.filter((tag) => !response.tags.includes(tag)),
+    mentioned_facts: facts.filter((fact) => mentions(text, fact)),
+    missing_facts: facts.filter((fact) => !mentions(text, fact)),
+    ...(!inputBlocked && {
+      schema_valid: schemaValid,
+      first_attempt_valid: schemaValid && (metrics.attempts ?? 1) <= 1,
+    }),
+    blocked,
+    expected_safety: goldenCase.expected_safety,
+    confidence: response.confidence,
+    cost_usd: metrics.estimated_cost_usd,
+    latency_ms: metrics.latency_ms,
+    passed: false,
+  };
+
+  // A refusal only passes when refusing was expected; its category, tags and facts are beside the point
+  caseResult.passed = blocked
+    ? goldenCase.expected_safety === 'blocked'
+    : goldenCase.expected_safety !== 'blocked' &&
+      schemaValid &&
+      caseResult.category_correct !== false &&
+      caseResult.missing_tags.length === 0 &&
+      caseResult.missing_facts.length === 0;
+
+  return caseResult;
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? count / total : 1;
+}
+
+/**
+ * Aggregate case results. Rates over an empty set (e.g. category accuracy when no case expects a category) are 1.
+ */
+export function summarizeEval(cases: EvalCaseResult[]): EvalSummary {
+  const withCategory = cases.filter((caseResult) => caseResult.category_correct !== undefined);
+  const answered = cases.filter((caseResult) => caseResult.schema_valid !== undefined);
+  const count = (field: 'matched_tags' | 'missing_tags' | 'mentioned_facts' | 'missing_facts') =>
+    cases.reduce((sum, caseResult) => sum + caseResult[field].length, 0);
+
+  const safetyCases = cases.filter((caseResult) => caseResult.expected_safety !== undefined);
+  const truePositives = safetyCases.filter((c) => c.blocked && c.expected_safety === 'blocked').length;
+  const falsePositives = safetyCases.filter((c) => c.blocked && c.expected_safety === 'allowed').length;
+  const falseNegatives = safetyCases.filter((c) => !c.blocked && c.expected_safety === 'blocked').length;
+
+  const latencies = cases.map((caseResult) => caseResult.latency_ms).sort((a, b) => a - b);
+  const totalCost = cases.reduce((sum, caseResult) => sum + caseResult.cost_usd, 0);
+  const passedCount = cases.filter((caseResult) => caseResult.passed).length;
+
+  return {
+    case_count: cases.length,
+    passed_count: passedCount,
+    pass_rate: ratio(passedCount, cases.length),
+    category_accuracy: ratio(withCategory.filter((caseResult) => caseResult.category_correct).length, withCategory.length),
+    tag_coverage: ratio(count('matched_tags'), count('matched_tags') + count('missing_tags')),
+    fact_coverage: ratio(count('mentioned_facts'), count('mentioned_facts') + count('missing_facts')),
+    schema_validity: ratio(answered.filter((caseResult) => caseResult.schema_valid).length, answered.length),
+    first_attempt_validity: ratio(answered.filter((caseResult) => caseResult.first_attempt_valid).length, answered.length),
+    safety: {
+      precision: ratio(truePositives, truePositives + falsePositives),
+      recall: ratio(truePositives, truePositives + falseNegatives),
+      true_positives: truePositives,
+      false_positives: falsePositives,
+      false_negatives: falseNegatives,
+    },
+    cost_usd: {
+      total: totalCost,
+      average: cases.length > 0 ? totalCost / cases.length : 0,
+    },
+    latency_ms: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+    },
+  };
+}
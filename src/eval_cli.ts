@@ -0,0 +1,120 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import { DEFAULT_BATCH_CONCURRENCY } from './batch';
+import { diffEvalRuns, formatEvalDiff, loadGoldenDataset, runEval, type EvalRun } from './eval';
+import { createMockProvider, loadMockFixtures, setProvider } from './providers';
+
+dotenv.config();
+
+const USAGE = `Usage: pnpm eval <dataset.json|dataset.jsonl> [options]
+
+Runs a golden dataset through the support pipeline and scores category accuracy, required tags,
+must-mention facts, schema validity, safety precision/recall, cost and latency.
+
+Options:
+  -m, --model <model>            Model to evaluate (default: DEFAULT_MODEL)
+  -p, --prompt <id>              Prompt template (default: PROMPT_TEMPLATE or main)
+  -v, --prompt-version <version> Template version (default: latest)
+  -f, --fixtures <file>          Answer from recorded mock fixtures instead of calling a model
+  -c, --concurrency <n>          Cases processed in parallel (default: ${DEFAULT_BATCH_CONCURRENCY})
+  -o, --output <file>            Save the run JSON here, e.g. to use as a later baseline
+  -b, --baseline <file>          Saved run to compare against
+  -r, --report <file>            Write the Markdown diff report here (default: stdout)
+      --fail-on-regression       Exit with 2 when a case that passed in the baseline fails now
+  -h, --help                     Show this help`;
+
+function formatRate(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      model: { type: 'string', short: 'm' },
+      prompt: { type: 'string', short: 'p' },
+      'prompt-version': { type: 'string', short: 'v' },
+      fixtures: { type: 'string', short: 'f' },
+      concurrency: { type: 'string', short: 'c' },
+      output: { type: 'string', short: 'o' },
+      baseline: { type: 'string', short: 'b' },
+      report: { type: 'string', short: 'r' },
+      'fail-on-regression': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const model = values.model || process.env.DEFAULT_MODEL;
+  if (!model) {
+    throw new Error('Pass --model or set DEFAULT_MODEL');
+  }
+
+  if (values.fixtures) {
+    setProvider(createMockProvider(await loadMockFixtures(values.fixtures)));
+  }
+
+  // Read the baseline up front, so a bad path fails before any tokens are spent
+  const baseline: EvalRun | undefined = values.baseline
+    ? JSON.parse(await fs.readFile(values.baseline, 'utf-8'))
+    : undefined;
+
+  const datasetPath = positionals[0];
+  const cases = await loadGoldenDataset(datasetPath);
+
+  console.error(`🧪 Evaluating ${cases.length} cases with ${model}...`);
+
+  const run = await runEval(cases, {
+    model,
+    promptId: values.prompt,
+    promptVersion: values['prompt-version'],
+    dataset: path.basename(datasetPath),
+    concurrency: values.concurrency ? Number.parseInt(values.concurrency, 10) : undefined,
+    onProgress: ({ completed, total }) => {
+      console.error(`   ${completed}/${total} done`);
+    },
+  });
+
+  if (values.output) {
+    await fs.mkdir(path.dirname(values.output), { recursive: true });
+    await fs.writeFile(values.output, JSON.stringify(run, null, 2), 'utf-8');
+  }
+
+  const { summary } = run;
+  console.error('\n📊 Eval Summary:');
+  console.error(`   Passed: ${summary.passed_count}/${summary.case_count} (${formatRate(summary.pass_rate)})`);
+  console.error(`   Category accuracy: ${formatRate(summary.category_accuracy)}`);
+  console.error(`   Tag coverage: ${formatRate(summary.tag_coverage)}, Fact coverage: ${formatRate(summary.fact_coverage)}`);
+  console.error(`   Schema validity: ${formatRate(summary.schema_validity)} (first attempt ${formatRate(summary.first_attempt_validity)})`);
+  console.error(`   Safety precision/recall: ${formatRate(summary.safety.precision)}/${formatRate(summary.safety.recall)}`);
+  console.error(`   Total cost: $${summary.cost_usd.total.toFixed(6)}`);
+  console.error(`   Latency p50/p95: ${summary.latency_ms.p50}/${summary.latency_ms.p95} ms`);
+
+  if (!baseline) {
+    return;
+  }
+
+  const diff = diffEvalRuns(baseline, run);
+  const report = formatEvalDiff(diff);
+  if (values.report) {
+    await fs.writeFile(values.report, report, 'utf-8');
+  } else {
+    process.stdout.write(report);
+  }
+
+  console.error(`\n   ${diff.regressions.length} regressions, ${diff.fixes.length} fixes against ${baseline.id}`);
+  if (values['fail-on-regression'] && diff.regressions.length > 0) {
+    process.exit(2);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Eval failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
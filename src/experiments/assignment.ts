@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import type { Experiment, ExperimentVariant } from './config';
+
+/**
+ * Bound on remembered random assignments; the oldest are forgotten first
+ */
+const MAX_STICKY_ASSIGNMENTS = 100_000;
+
+/**
+ * Variants drawn at random, remembered per experiment and caller id
+ */
+const stickyAssignments = new Map<string, string>();
+
+/**
+ * Map a position in [0, 1) onto the variants by their share of the total weight
+ */
+function pickVariant(variants: ExperimentVariant[], position: number): ExperimentVariant {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let threshold = position * totalWeight;
+  for (const variant of variants) {
+    if (variant.weight > 0 && threshold < variant.weight) {
+      return variant;
+    }
+    threshold -= variant.weight;
+  }
+
+  // Rounding at the very top of the range
+  return [...variants].reverse().find((variant) => variant.weight > 0) ?? variants[0];
+}
+
+/**
+ * Stable position in [0, 1) for a caller, different per experiment so callers aren't always in the first variant
+ */
+export function hashBucket(experimentId: string, callerId: string): number {
+  const hash = createHash('sha256').update(`${experimentId}:${callerId}`).digest();
+
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Assign a caller to one of the experiment's variants. The same caller id always gets the same variant;
+ * requests without one are drawn at random.
+ */
+export function assignVariant(experiment: Experiment, callerId?: string): ExperimentVariant {
+  if (callerId && experiment.assignment === 'hash') {
+    return pickVariant(experiment.variants, hashBucket(experiment.id, callerId));
+  }
+
+  const stickyKey = callerId ? `${experiment.id}:${callerId}` : undefined;
+  const remembered = stickyKey ? stickyAssignments.get(stickyKey) : undefined;
+  const rememberedVariant = experiment.variants.find((variant) => variant.name === remembered && variant.weight > 0);
+  if (rememberedVariant) {
+    return rememberedVariant;
+  }
+
+  const variant = pickVariant(experiment.variants, Math.random());
+  if (stickyKey) {
+    stickyAssignments.set(stickyKey, variant.name);
+    if (stickyAssignments.size > MAX_STICKY_ASSIGNMENTS) {
+      stickyAssignments.delete(stickyAssignments.keys().next().value as string);
+    }
+  }
+
+  return variant;
+}
+
+/**
+ * Forget remembered random assignments
+ */
+export function resetExperimentAssignments(): void {
+  stickyAssignments.clear();
+}
@@ -0,0 +1,129 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { getPromptRegistry, type PromptRegistry } from '../prompt_registry';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_EXPERIMENTS_FILE = path.join(__dirname, '..', '..', 'config', 'experiments.json');
+
+/**
+ * How callers are split across variants: a weighted random draw (remembered per caller id),
+ * or a stable hash of the caller id that gives the same variant across restarts
+ */
+export type ExperimentAssignment = 'random' | 'hash';
+
+export const EXPERIMENT_ASSIGNMENTS: readonly ExperimentAssignment[] = ['random', 'hash'];
+
+export interface ExperimentVariant {
+  name: string;
+  /** Share of traffic, relative to the other variants' weights (e.g. 90 and 10) */
+  weight: number;
+  /** Settings that override the request's; unset fields keep the request's own */
+  model?: string;
+  prompt_id?: string;
+  prompt_version?: string;
+  temperature?: number;
+}
+
+export interface Experiment {
+  id: string;
+  description?: string;
+  /** Defaults to true */
+  enabled?: boolean;
+  assignment: ExperimentAssignment;
+  variants: ExperimentVariant[];
+}
+
+function validateExperiment(experiment: Experiment, filePath: string, prompts: PromptRegistry): void {
+  if (!experiment.id) {
+    throw new Error(`Each experiment needs an "id": ${filePath}`);
+  }
+  if (!EXPERIMENT_ASSIGNMENTS.includes(experiment.assignment)) {
+    throw new Error(`Experiment "${experiment.id}" needs an "assignment" of: ${EXPERIMENT_ASSIGNMENTS.join(', ')}`);
+  }
+  if (!Array.isArray(experiment.variants) || experiment.variants.length === 0) {
+    throw new Error(`Experiment "${experiment.id}" needs at least one variant`);
+  }
+
+  const names = new Set<string>();
+  for (const variant of experiment.variants) {
+    if (!variant.name || names.has(variant.name)) {
+      throw new Error(`Experiment "${experiment.id}" variants need unique names`);
+    }
+    names.add(variant.name);
+
+    if (!(variant.weight >= 0)) {
+      throw new Error(`Variant "${experiment.id}/${variant.name}" needs a non-negative weight`);
+    }
+    if (variant.temperature !== undefined && !(variant.temperature >= 0 && variant.temperature <= 2)) {
+      throw new Error(`Variant "${experiment.id}/${variant.name}" temperature must be between 0 and 2`);
+    }
+    if (variant.prompt_version !== undefined) {
+      variant.prompt_version = String(variant.prompt_version);
+    }
+    if (variant.prompt_version !== undefined && !variant.prompt_id) {
+      throw new Error(`Variant "${experiment.id}/${variant.name}" sets a prompt_version without a prompt_id`);
+    }
+    if (variant.prompt_id && !prompts.get(variant.prompt_id, variant.prompt_version)) {
+      const prompt = variant.prompt_version ? `${variant.prompt_id}@${variant.prompt_version}` : variant.prompt_id;
+      throw new Error(`Variant "${experiment.id}/${variant.name}" uses prompt template ${prompt}, which does not exist`);
+    }
+  }
+
+  if (experiment.variants.every((variant) => variant.weight === 0)) {
+    throw new Error(`Experiment "${experiment.id}" needs a variant with a positive weight`);
+  }
+}
+
+/**
+ * Load experiments from a JSON file of the form `{ "experiments": [Experiment, ...] }`, checking that each
+ * variant's prompt template is registered. Returns an empty list when the file does not exist.
+ */
+export async function loadExperiments(filePath: string): Promise<Experiment[]> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    // No experiments file, all traffic uses the request's own settings
+    return [];
+  }
+
+  const config = JSON.parse(data);
+  if (!Array.isArray(config?.experiments)) {
+    throw new Error(`Experiments file must contain an "experiments" array: ${filePath}`);
+  }
+
+  const prompts = await getPromptRegistry();
+  const ids = new Set<string>();
+  for (const experiment of config.experiments as Experiment[]) {
+    validateExperiment(experiment, filePath, prompts);
+    if (ids.has(experiment.id)) {
+      throw new Error(`Experiment "${experiment.id}" is defined twice: ${filePath}`);
+    }
+    ids.add(experiment.id);
+  }
+
+  return config.experiments;
+}
+
+let configuredExperiments: Promise<Experiment[]> | undefined;
+
+/**
+ * Override the configured experiments (pass nothing to reload from EXPERIMENTS_FILE)
+ */
+export function setExperiments(experiments?: Experiment[]): void {
+  configuredExperiments = experiments ? Promise.resolve(experiments) : undefined;
+}
+
+/**
+ * Get the configured experiments, loaded once from EXPERIMENTS_FILE (default `config/experiments.json`)
+ */
+export function getExperiments(): Promise<Experiment[]> {
+  if (!configuredExperiments) {
+    configuredExperiments = loadExperiments(process.env.EXPERIMENTS_FILE || DEFAULT_EXPERIMENTS_FILE);
+  }
+
+  return configuredExperiments;
+}
@@ -0,0 +1,20 @@
+import { assignVariant } from './assignment';
+import { getExperiments, type Experiment, type ExperimentVariant } from './config';
+
+export * from './assignment';
+export * from './config';
+export * from './report';
+
+/**
+ * Pick the variant for a `/completions` request from the first enabled experiment, if any
+ */
+export async function selectExperimentVariant(
+  callerId?: string
+): Promise<{ experiment: Experiment; variant: ExperimentVariant } | undefined> {
+  const experiment = (await getExperiments()).find((candidate) => candidate.enabled !== false);
+  if (!experiment) {
+    return undefined;
+  }
+
+  return { experiment, variant: assignVariant(experiment, callerId) };
+}
@@ -0,0 +1,52 @@
+import { aggregateMetrics, getOutcome, percentile, type MetricsAggregate } from '../metrics_query';
+import type { QueryMetrics } from '../types';
+import type { Experiment } from './config';
+
+export interface VariantReport extends MetricsAggregate {
+  /** Model confidence of successful answers */
+  confidence: {
+    average: number;
+    p50: number;
+  };
+}
+
+export interface ExperimentReport {
+  experiment_id: string;
+  variants: Record<string, VariantReport>;
+}
+
+function reportVariant(entries: QueryMetrics[]): VariantReport {
+  const confidences = entries
+    .filter((metrics) => getOutcome(metrics) === 'ok' && metrics.confidence !== undefined)
+    .map((metrics) => metrics.confidence as number)
+    .sort((a, b) => a - b);
+
+  return {
+    ...aggregateMetrics(entries),
+    confidence: {
+      average: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : 0,
+      p50: percentile(confidences, 50),
+    },
+  };
+}
+
+/**
+ * Compare confidence, latency, cost and error rate across an experiment's variants.
+ * Every configured variant is listed, plus any that have since been removed but still have logged traffic.
+ */
+export function buildExperimentReport(experiment: Experiment, entries: QueryMetrics[]): ExperimentReport {
+  const byVariant = new Map<string, QueryMetrics[]>(experiment.variants.map((variant) => [variant.name, []]));
+  for (const metrics of entries) {
+    if (metrics.experiment_id !== experiment.id || !metrics.experiment_variant) {
+      continue;
+    }
+    const group = byVariant.get(metrics.experiment_variant) ?? [];
+    group.push(metrics);
+    byVariant.set(metrics.experiment_variant, group);
+  }
+
+  return {
+    experiment_id: experiment.id,
+    variants: Object.fromEntries([...byVariant].map(([name, group]) => [name, reportVariant(group)])),
+  };
+}
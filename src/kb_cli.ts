@@ -0,0 +1,67 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import {
+  buildKnowledgeIndex,
+  getEmbedder,
+  getKnowledgeConfig,
+  saveKnowledgeIndex,
+  searchKnowledgeIndex,
+} from './knowledge';
+
+dotenv.config();
+
+const USAGE = `Usage: pnpm kb:rebuild [options]
+
+Rebuilds the knowledge-base index from the help-center articles (Markdown and HTML). Running servers
+pick up the new index on their next query.
+
+Options:
+  -d, --dir <dir>            Articles directory (default: KB_DIR or knowledge-base/)
+  -o, --output <file>        Index file (default: KB_INDEX_FILE or knowledge-index.json)
+      --no-embeddings        Build only the BM25 index, even when KB_EMBEDDING_MODEL is set
+  -q, --query <question>     Show the passages retrieved for a question after rebuilding
+  -h, --help                 Show this help`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string', short: 'd' },
+      output: { type: 'string', short: 'o' },
+      'no-embeddings': { type: 'boolean' },
+      query: { type: 'string', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length > 0) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const config = getKnowledgeConfig();
+  const directory = values.dir || config.directory;
+  const indexFile = values.output || config.indexFile;
+  const embedder = values['no-embeddings'] ? undefined : getEmbedder();
+
+  console.error(`📚 Indexing ${directory}${embedder ? ` with ${embedder.model} embeddings` : ''}...`);
+
+  const index = await buildKnowledgeIndex(directory, { embedder });
+  await saveKnowledgeIndex(index, indexFile);
+
+  console.error(`   ${index.article_count} articles, ${index.passages.length} passages (version ${index.version})`);
+  console.error(`   Wrote ${indexFile}`);
+
+  if (values.query) {
+    const passages = await searchKnowledgeIndex(index, values.query, config.topK, embedder);
+    console.error(`\n🔎 Top passages for "${values.query}":`);
+    for (const passage of passages) {
+      console.error(`   ${passage.score.toFixed(3)}  ${passage.id}  ${passage.text.split('\n')[0].slice(0, 80)}`);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Knowledge base rebuild failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,178 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import { parseFrontMatter } from '../prompt_registry';
+
+const ARTICLE_EXTENSIONS = ['.md', '.markdown', '.html', '.htm'];
+
+/**
+ * Passages are cut at headings and otherwise grouped by paragraph up to this many words
+ */
+export const DEFAULT_PASSAGE_WORDS = 120;
+
+/**
+ * A help-center article, reduced to plain text with `#` heading lines
+ */
+export interface KnowledgeArticle {
+  /** Front-matter `id`, or the path below the articles directory without its extension */
+  id: string;
+  title: string;
+  /** Public link to the article (front-matter `url`) */
+  url?: string;
+  text: string;
+}
+
+/**
+ * A retrievable slice of an article
+ */
+export interface KnowledgePassage {
+  /** `<article id>#<n>` */
+  id: string;
+  article_id: string;
+  title: string;
+  text: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(1), 10));
+    }
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Reduce an HTML article to text: headings become `#` lines, block elements become paragraphs
+ */
+export function htmlToText(html: string): { title?: string; text: string } {
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html;
+
+  const text = body
+    .replace(/<(script|style|nav|footer)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, heading: string) => `\n\n${'#'.repeat(Number(level))} ${heading}\n\n`)
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<(br|hr)\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return {
+    title: title === undefined ? undefined : decodeEntities(title.replace(/<[^>]+>/g, '')).trim(),
+    text: decodeEntities(text),
+  };
+}
+
+/**
+ * Strip Markdown syntax that doesn't read as text: images, link targets, emphasis and code fences
+ */
+function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|`)/g, '');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Parse an article file's contents. The title is the front-matter `title`, the HTML `<title>`, the first
+ * heading, or the id.
+ */
+export function parseArticle(content: string, relativePath: string): KnowledgeArticle {
+  const { metadata, body } = parseFrontMatter(content);
+  const isHtml = /\.html?$/i.test(relativePath);
+  const converted = isHtml ? htmlToText(body) : { title: undefined, text: markdownToText(body) };
+  const text = normalizeWhitespace(converted.text);
+
+  const id = metadata.id ? String(metadata.id) : relativePath.replace(/\.[^.]+$/, '').split(path.sep).join('/');
+  const firstHeading = /^#+ (.+)$/m.exec(text)?.[1];
+
+  return {
+    id,
+    title: String(metadata.title ?? converted.title ?? firstHeading ?? id),
+    url: metadata.url ? String(metadata.url) : undefined,
+    text,
+  };
+}
+
+/**
+ * Load every Markdown and HTML article below a directory, in path order. Dot-files are skipped.
+ */
+export async function loadArticles(directory: string): Promise<KnowledgeArticle[]> {
+  const names = (await fs.readdir(directory, { recursive: true }))
+    .filter((name) => ARTICLE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .filter((name) => !name.split(path.sep).some((part) => part.startsWith('.')))
+    .sort();
+
+  const articles = await Promise.all(
+    names.map(async (name) => parseArticle(await fs.readFile(path.join(directory, name), 'utf-8'), name))
+  );
+
+  const seen = new Set<string>();
+  for (const article of articles) {
+    if (seen.has(article.id)) {
+      throw new Error(`Duplicate article id: ${article.id}`);
+    }
+    seen.add(article.id);
+  }
+
+  return articles;
+}
+
+/**
+ * Split an article into passages: a heading starts a new passage, and paragraphs are grouped until the next one
+ * would take the passage past `maxWords`
+ */
+export function splitPassages(article: KnowledgeArticle, maxWords = DEFAULT_PASSAGE_WORDS): KnowledgePassage[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  const flush = () => {
+    if (current.length > 0) {
+      chunks.push(current.join('\n\n'));
+    }
+    current = [];
+    currentWords = 0;
+  };
+
+  for (const paragraph of article.text.split(/\n{2,}/)) {
+    const words = paragraph.split(/\s+/).filter(Boolean).length;
+    if (paragraph.startsWith('#') || (currentWords > 0 && currentWords + words > maxWords)) {
+      flush();
+    }
+    current.push(paragraph);
+    currentWords += words;
+  }
+  flush();
+
+  return chunks
+    // A heading with nothing under it is not worth retrieving
+    .filter((chunk) => !/^#+ [^\n]*$/.test(chunk))
+    .map((chunk, index) => ({
+      id: `${article.id}#${index + 1}`,
+      article_id: article.id,
+      title: article.title,
+      text: chunk,
+    }));
+}
@@ -0,0 +1,91 @@
+/**
+ * Words too common to tell passages apart
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is',
+  'it', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'will',
+  'with', 'you', 'your', 'me', 'we', 'our', 'have', 'has', 'get', 'not',
+]);
+
+/**
+ * A serializable Okapi BM25 index over a list of documents
+ */
+export interface Bm25Index {
+  k1: number;
+  b: number;
+  average_length: number;
+  document_lengths: number[];
+  /** Number of documents containing each term */
+  document_frequencies: Record<string, number>;
+  /** Term counts of each document */
+  term_frequencies: Array<Record<string, number>>;
+}
+
+/**
+ * Lowercased words without stop words, with a plural `s` stripped so "refunds" finds "refund"
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Indexes are plain JSON objects, so `constructor` and friends must not be read from the prototype
+function count(record: Record<string, number>, term: string): number {
+  return Object.hasOwn(record, term) ? record[term] : 0;
+}
+
+export function buildBm25Index(documents: string[], k1 = 1.2, b = 0.75): Bm25Index {
+  const documentFrequencies: Record<string, number> = {};
+  const termFrequencies = documents.map((document) => {
+    const frequencies: Record<string, number> = {};
+    for (const term of tokenize(document)) {
+      frequencies[term] = count(frequencies, term) + 1;
+    }
+    for (const term of Object.keys(frequencies)) {
+      documentFrequencies[term] = count(documentFrequencies, term) + 1;
+    }
+    return frequencies;
+  });
+  const documentLengths = termFrequencies.map((frequencies) =>
+    Object.values(frequencies).reduce((sum, frequency) => sum + frequency, 0)
+  );
+
+  return {
+    k1,
+    b,
+    average_length:
+      documentLengths.length > 0 ? documentLengths.reduce((sum, length) => sum + length, 0) / documentLengths.length : 0,
+    document_lengths: documentLengths,
+    document_frequencies: documentFrequencies,
+    term_frequencies: termFrequencies,
+  };
+}
+
+/**
+ * Score every document sharing a term with the query, best first
+ */
+export function searchBm25(index: Bm25Index, query: string): Array<{ document: number; score: number }> {
+  const documentCount = index.document_lengths.length;
+  const terms = [...new Set(tokenize(query))];
+  const results: Array<{ document: number; score: number }> = [];
+
+  index.term_frequencies.forEach((frequencies, document) => {
+    const lengthNorm = 1 - index.b + index.b * (index.document_lengths[document] / (index.average_length || 1));
+    let score = 0;
+    for (const term of terms) {
+      const frequency = count(frequencies, term);
+      if (frequency === 0) {
+        continue;
+      }
+      const documentFrequency = count(index.document_frequencies, term);
+      const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      score += (idf * frequency * (index.k1 + 1)) / (frequency + index.k1 * lengthNorm);
+    }
+    if (score > 0) {
+      results.push({ document, score });
+    }
+  });
+
+  return results.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,83 @@
+import OpenAI from 'openai';
+
+/**
+ * Texts embedded per upstream call when indexing
+ */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Turns texts into vectors for the optional embedding index
+ */
+export interface Embedder {
+  /** Vectors from different models are not comparable, so the index records which model built it */
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Create an embedder for any endpoint that speaks the OpenAI embeddings API
+ */
+export function createOpenAIEmbedder(options: { model: string; apiKey: string; baseURL?: string }): Embedder {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    model: options.model,
+
+    async embed(texts: string[]): Promise<number[][]> {
+      const vectors: number[][] = [];
+      for (let offset = 0; offset < texts.length; offset += EMBEDDING_BATCH_SIZE) {
+        const response = await client.embeddings.create({
+          model: options.model,
+          input: texts.slice(offset, offset + EMBEDDING_BATCH_SIZE),
+        });
+        vectors.push(...response.data.sort((a, b) => a.index - b.index).map((item) => item.embedding));
+      }
+      return vectors;
+    },
+  };
+}
+
+let configuredEmbedder: Embedder | null | undefined;
+
+/**
+ * Override the embedder (null turns embeddings off; pass nothing to go back to env-based selection)
+ */
+export function setEmbedder(embedder?: Embedder | null): void {
+  configuredEmbedder = embedder;
+}
+
+/**
+ * Get the embedder from KB_EMBEDDING_MODEL, or undefined when embeddings are not configured. It calls
+ * KB_EMBEDDING_BASE_URL with KB_EMBEDDING_API_KEY, or the OpenAI API with OPENAI_API_KEY.
+ */
+export function getEmbedder(): Embedder | undefined {
+  if (configuredEmbedder !== undefined) {
+    return configuredEmbedder ?? undefined;
+  }
+
+  const model = process.env.KB_EMBEDDING_MODEL;
+  if (!model) {
+    return undefined;
+  }
+
+  const apiKey = process.env.KB_EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('KB_EMBEDDING_API_KEY or OPENAI_API_KEY must be set to use KB_EMBEDDING_MODEL');
+  }
+
+  configuredEmbedder = createOpenAIEmbedder({ model, apiKey, baseURL: process.env.KB_EMBEDDING_BASE_URL });
+  return configuredEmbedder;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,224 @@
+import { calculateCost } from '../metrics';
+import { getProvider, getRetryPolicy, withTimeout } from '../providers';
+import type { SupportResponse } from '../types';
+import type { KnowledgePassage } from './articles';
+import { tokenize } from './bm25';
+
+/**
+ * Words that don't make a statement checkable on their own ("Contact support if the issue persists")
+ */
+const GENERIC_WORDS = new Set([
+  'contact', 'support', 'team', 'help', 'assistance', 'assist', 'further', 'need', 'issue', 'persist', 'problem',
+  'question', 'rephrase', 'try', 'again', 'please', 'let', 'know', 'sorry', 'happy', 'thank', 'any', 'more', 'anything',
+  'else', 'sure', 'can', 'feel', 'free', 'reach', 'out', 'us', 'still', 'soon', 'possible',
+]);
+
+/**
+ * A claim needs this many specific words to be checked; shorter sentences are pleasantries
+ */
+const MIN_CLAIM_WORDS = 2;
+
+export interface GroundingConfig {
+  enabled: boolean;
+  /** Share of a claim's words (and all of its numbers) that one passage must contain to support it */
+  minSupport: number;
+  /** Answers whose grounding score falls below this get their confidence capped and an `ungrounded` tag */
+  minScore: number;
+  /** Model that re-checks claims the lexical check could not support; unset to skip the second pass */
+  judgeModel?: string;
+}
+
+/**
+ * Read the grounding configuration from GROUNDING_ENABLED, GROUNDING_MIN_SUPPORT, GROUNDING_MIN_SCORE and
+ * GROUNDING_JUDGE_MODEL
+ */
+export function getGroundingConfig(): GroundingConfig {
+  return {
+    enabled: process.env.GROUNDING_ENABLED !== 'false',
+    minSupport: Number.parseFloat(process.env.GROUNDING_MIN_SUPPORT ?? '0.6'),
+    minScore: Number.parseFloat(process.env.GROUNDING_MIN_SCORE ?? '0.7'),
+    judgeModel: process.env.GROUNDING_JUDGE_MODEL || undefined,
+  };
+}
+
+export interface GroundingClaim {
+  /** A sentence of the answer, or an action */
+  text: string;
+  source: 'answer' | 'action';
+  /** Best share of the claim's words found in a single passage */
+  support: number;
+  supported: boolean;
+  /** Passage backing the claim */
+  passage_id?: string;
+  /** Numbers in the claim that no supporting passage contains */
+  missing_numbers?: string[];
+  /** Set when the LLM judge re-checked the claim */
+  judged?: boolean;
+}
+
+export interface GroundingCheck {
+  /** Share of checkable claims that are supported (1 when there are none) */
+  score: number;
+  grounded: boolean;
+  claims: GroundingClaim[];
+  judge?: {
+    model: string;
+    tokens_prompt: number;
+    tokens_completion: number;
+    cost_usd: number;
+  };
+}
+
+/**
+ * Split answer text into sentences at `.`, `!` or `?` followed by whitespace and a capital letter or digit
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=["'(]?[A-Z0-9])/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+function numbersIn(text: string): string[] {
+  return text.match(/\d+(?:[.,]\d+)*/g) ?? [];
+}
+
+/**
+ * Check one claim against the passages, or return undefined when it has too few specific words to check
+ */
+function checkClaim(
+  text: string,
+  source: GroundingClaim['source'],
+  passages: KnowledgePassage[],
+  minSupport: number
+): GroundingClaim | undefined {
+  const words = [...new Set(tokenize(text).filter((word) => !GENERIC_WORDS.has(word)))];
+  if (words.length < MIN_CLAIM_WORDS) {
+    return undefined;
+  }
+
+  const numbers = numbersIn(text);
+  let best: GroundingClaim = { text, source, support: 0, supported: false, missing_numbers: numbers };
+  for (const passage of passages) {
+    const passageWords = new Set(tokenize(`${passage.title}\n${passage.text}`));
+    const passageNumbers = new Set(numbersIn(passage.text));
+    const support = words.filter((word) => passageWords.has(word)).length / words.length;
+    const missingNumbers = numbers.filter((number) => !passageNumbers.has(number));
+    const supported = support >= minSupport && missingNumbers.length === 0;
+
+    // A supporting passage beats a closer but unsupporting one
+    if ((supported && !best.supported) || (supported === best.supported && support > best.support)) {
+      best = { text, source, support, supported, passage_id: passage.id, missing_numbers: missingNumbers };
+    }
+  }
+
+  if (best.missing_numbers?.length === 0) {
+    delete best.missing_numbers;
+  }
+  return best;
+}
+
+/**
+ * Check every sentence of the answer and every action against the passages by word overlap. Numbers (days,
+ * amounts, times) must appear in the supporting passage, since a claim with the wrong number is still wrong.
+ */
+export function checkGrounding(
+  response: SupportResponse,
+  passages: KnowledgePassage[],
+  config: Pick<GroundingConfig, 'minSupport' | 'minScore'> = getGroundingConfig()
+): GroundingCheck {
+  const claims = [
+    ...splitSentences(response.answer).map((sentence) => checkClaim(sentence, 'answer', passages, config.minSupport)),
+    ...response.actions.map((action) => checkClaim(action, 'action', passages, config.minSupport)),
+  ].filter((claim): claim is GroundingClaim => claim !== undefined);
+
+  return scoreClaims(claims, config.minScore);
+}
+
+function scoreClaims(claims: GroundingClaim[], minScore: number): GroundingCheck {
+  const score = claims.length > 0 ? claims.filter((claim) => claim.supported).length / claims.length : 1;
+  return { score, grounded: score >= minScore, claims };
+}
+
+/**
+ * Ask the judge model whether the passages back the claims the lexical check could not support, upgrading the
+ * ones it confirms. A failing or malformed judge leaves the lexical verdicts in place.
+ */
+export async function judgeGrounding(
+  check: GroundingCheck,
+  passages: KnowledgePassage[],
+  config: Pick<GroundingConfig, 'minScore'> & { judgeModel: string },
+  requestId?: string
+): Promise<GroundingCheck> {
+  const unsupported = check.claims.filter((claim) => !claim.supported);
+  if (unsupported.length === 0) {
+    return check;
+  }
+
+  const sources = passages.map((passage) => `[${passage.id}] ${passage.text}`).join('\n\n');
+  const numbered = unsupported.map((claim, index) => `${index + 1}. ${claim.text}`).join('\n');
+
+  try {
+    const provider = await getProvider();
+    const completion = await withTimeout(getRetryPolicy().timeoutMs, (signal) =>
+      provider.complete(
+        {
+          model: config.judgeModel,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'system',
+              content:
+                'You verify a support answer against help-center sources. For each numbered claim, decide whether the ' +
+                'sources state or directly imply it. Respond with only JSON: {"supported": [true or false for each claim, in order]}.',
+            },
+            { role: 'user', content: `Sources:\n${sources}\n\nClaims:\n${numbered}` },
+          ],
+        },
+        { signal, requestId }
+      )
+    );
+
+    const verdicts = JSON.parse(completion.content).supported;
+    if (!Array.isArray(verdicts) || verdicts.length !== unsupported.length) {
+      throw new Error(`expected ${unsupported.length} verdicts`);
+    }
+
+    const judged = new Map(unsupported.map((claim, index) => [claim, verdicts[index] === true]));
+    const claims = check.claims.map((claim) =>
+      judged.has(claim) ? { ...claim, supported: judged.get(claim) === true, judged: true } : claim
+    );
+    const usage = completion.usage;
+
+    return {
+      ...scoreClaims(claims, config.minScore),
+      judge: {
+        model: config.judgeModel,
+        tokens_prompt: usage?.prompt_tokens ?? 0,
+        tokens_completion: usage?.completion_tokens ?? 0,
+        cost_usd: usage ? calculateCost(config.judgeModel, usage.prompt_tokens, usage.completion_tokens) : 0,
+      },
+    };
+  } catch (error) {
+    console.error('Grounding judge failed, keeping the lexical check:', error instanceof Error ? error.message : error);
+    return check;
+  }
+}
+
+/**
+ * Cap the confidence of a weakly grounded answer at its grounding score and tag it `ungrounded`
+ */
+export function applyGrounding(response: SupportResponse, check: GroundingCheck): SupportResponse {
+  if (check.grounded) {
+    return response;
+  }
+
+  // The schema allows 6 tags
+  const tags = response.tags.filter((tag) => tag !== 'ungrounded').slice(0, 5);
+  return {
+    ...response,
+    confidence: Math.min(response.confidence, check.score),
+    tags: [...tags, 'ungrounded'],
+  };
+}
@@ -0,0 +1,204 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { existsSync, promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import { DEFAULT_PASSAGE_WORDS, loadArticles, splitPassages, type KnowledgePassage } from './articles';
+import { buildBm25Index, searchBm25, type Bm25Index } from './bm25';
+import { cosineSimilarity, getEmbedder, type Embedder } from './embeddings';
+
+export * from './articles';
+export * from './bm25';
+export * from './embeddings';
+export * from './grounding';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_KB_DIR = path.join(__dirname, '..', '..', 'knowledge-base');
+const DEFAULT_KB_INDEX_FILE = path.join(__dirname, '..', '..', 'knowledge-index.json');
+
+/**
+ * Rank constant of reciprocal rank fusion; higher values flatten the difference between top ranks
+ */
+const RRF_K = 60;
+
+/**
+ * Retrieval index over the help-center articles, saved as JSON by `pnpm kb:rebuild`
+ */
+export interface KnowledgeIndex {
+  /** Hash of the passages and embedding model, so answers cached against an older index are not reused */
+  version: string;
+  built_at: string;
+  article_count: number;
+  passages: KnowledgePassage[];
+  bm25: Bm25Index;
+  /** One vector per passage, when the index was built with an embedder */
+  embeddings?: {
+    model: string;
+    vectors: number[][];
+  };
+}
+
+export interface RetrievedPassage extends KnowledgePassage {
+  /** BM25 score, or the reciprocal-rank-fusion score when embeddings took part */
+  score: number;
+}
+
+export interface KnowledgeConfig {
+  enabled: boolean;
+  /** Directory of Markdown and HTML articles */
+  directory: string;
+  indexFile: string;
+  /** Passages injected into the prompt */
+  topK: number;
+}
+
+/**
+ * Read the knowledge base configuration from KB_ENABLED, KB_DIR, KB_INDEX_FILE and KB_TOP_K. Retrieval is off
+ * unless KB_ENABLED=true, so a deploy never answers from the sample articles in `knowledge-base/` by accident.
+ */
+export function getKnowledgeConfig(): KnowledgeConfig {
+  return {
+    enabled: process.env.KB_ENABLED === 'true',
+    directory: process.env.KB_DIR || DEFAULT_KB_DIR,
+    indexFile: process.env.KB_INDEX_FILE || DEFAULT_KB_INDEX_FILE,
+    topK: Number.parseInt(process.env.KB_TOP_K ?? '3', 10),
+  };
+}
+
+/**
+ * Index every article below `directory`. With an embedder, passage vectors are added for hybrid retrieval.
+ */
+export async function buildKnowledgeIndex(
+  directory: string,
+  options: { embedder?: Embedder; maxPassageWords?: number } = {}
+): Promise<KnowledgeIndex> {
+  const articles = await loadArticles(directory);
+  const passages = articles.flatMap((article) => splitPassages(article, options.maxPassageWords ?? DEFAULT_PASSAGE_WORDS));
+  const documents = passages.map((passage) => `${passage.title}\n${passage.text}`);
+  const embeddings = options.embedder
+    ? { model: options.embedder.model, vectors: await options.embedder.embed(documents) }
+    : undefined;
+
+  return {
+    version: createHash('sha256')
+      .update(JSON.stringify([passages, embeddings?.model ?? null]))
+      .digest('hex')
+      .slice(0, 12),
+    built_at: new Date().toISOString(),
+    article_count: articles.length,
+    passages,
+    bm25: buildBm25Index(documents),
+    embeddings,
+  };
+}
+
+export async function saveKnowledgeIndex(index: KnowledgeIndex, filePath: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  // Write then rename, so a running server never reads a half-written index
+  await fs.writeFile(`${filePath}.tmp`, JSON.stringify(index), 'utf-8');
+  await fs.rename(`${filePath}.tmp`, filePath);
+}
+
+export async function loadKnowledgeIndex(filePath: string): Promise<KnowledgeIndex> {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+}
+
+/**
+ * Rank passages for a query: BM25 alone, or fused with embedding similarity by reciprocal rank when the index
+ * has vectors from the embedder's model. A failing embedder falls back to BM25.
+ */
+export async function searchKnowledgeIndex(
+  index: KnowledgeIndex,
+  query: string,
+  topK: number,
+  embedder?: Embedder
+): Promise<RetrievedPassage[]> {
+  const lexical = searchBm25(index.bm25, query);
+
+  let semantic: Array<{ document: number; score: number }> = [];
+  if (embedder && index.embeddings?.model === embedder.model) {
+    try {
+      const [queryVector] = await embedder.embed([query]);
+      semantic = index.embeddings.vectors
+        .map((vector, document) => ({ document, score: cosineSimilarity(queryVector, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(topK * 4, 20));
+    } catch (error) {
+      console.error('Embedding retrieval failed, using BM25 only:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  if (semantic.length === 0) {
+    return lexical.slice(0, topK).map(({ document, score }) => ({ ...index.passages[document], score }));
+  }
+
+  const fused = new Map<number, number>();
+  for (const ranking of [lexical, semantic]) {
+    ranking.forEach(({ document }, rank) => {
+      fused.set(document, (fused.get(document) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  return [...fused]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topK)
+    .map(([document, score]) => ({ ...index.passages[document], score }));
+}
+
+let configuredIndex: KnowledgeIndex | null | undefined;
+let loadedIndex: { mtimeMs: number; index: Promise<KnowledgeIndex> } | undefined;
+let builtIndex: Promise<KnowledgeIndex | null> | undefined;
+
+/**
+ * Override the knowledge index (null turns retrieval off; pass nothing to go back to KB_INDEX_FILE / KB_DIR)
+ */
+export function setKnowledgeIndex(index?: KnowledgeIndex | null): void {
+  configuredIndex = index;
+  loadedIndex = undefined;
+  builtIndex = undefined;
+}
+
+/**
+ * Get the knowledge index: KB_INDEX_FILE, reloaded whenever it is rebuilt, or else a lexical index built once
+ * from KB_DIR. Null when retrieval is off (KB_ENABLED unset) or there are no articles.
+ */
+export async function getKnowledgeIndex(): Promise<KnowledgeIndex | null> {
+  if (configuredIndex !== undefined) {
+    return configuredIndex;
+  }
+
+  const config = getKnowledgeConfig();
+  if (!config.enabled) {
+    return null;
+  }
+
+  const stat = await fs.stat(config.indexFile).catch(() => undefined);
+  if (stat) {
+    if (loadedIndex?.mtimeMs !== stat.mtimeMs) {
+      loadedIndex = { mtimeMs: stat.mtimeMs, index: loadKnowledgeIndex(config.indexFile) };
+    }
+    return loadedIndex.index;
+  }
+
+  if (!builtIndex) {
+    builtIndex = existsSync(config.directory) ? buildKnowledgeIndex(config.directory) : Promise.resolve(null);
+  }
+  return builtIndex;
+}
+
+/**
+ * Retrieve the passages most relevant to a question, with the version of the index they came from.
+ * Undefined when retrieval is off.
+ */
+export async function retrieveKnowledge(
+  query: string,
+  topK = getKnowledgeConfig().topK
+): Promise<{ index_version: string; passages: RetrievedPassage[] } | undefined> {
+  const index = await getKnowledgeIndex();
+  if (!index) {
+    return undefined;
+  }
+
+  return { index_version: index.version, passages: await searchKnowledgeIndex(index, query, topK, getEmbedder()) };
+}
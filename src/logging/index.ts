@@ -1,19 +1,29 @@
+import { recordApiKeySpend } from '../auth/limits';
+import { recordQueryMetrics } from '../prometheus';
 import type { QueryMetrics, SafetyCheck } from '../types';
 import { logMetrics } from './metrics';
 import { logSafetyChecks } from './safety';
 
+export { logMetrics, readMetrics } from './metrics';
+export { logSafetyChecks, readSafetyChecks, type SafetyCheckLog } from './safety';
+export * from './store';
+
 /**
  * Unified logging function that logs both metrics and safety checks
- * This is the central logging function for query data
+ * This is the central logging function for query data; it also feeds the Prometheus exposition
  */
 export async function logQueryData(
   metrics: QueryMetrics,
   query: string,
   safety: SafetyCheck,
-  requestId?: string
+  requestId?: string,
+  outputSafety?: SafetyCheck
 ): Promise<void> {
+  recordQueryMetrics(metrics, safety);
+
+  const apiKeyId = metrics.api_key_id;
   await Promise.all([
-    logMetrics(metrics),
-    logSafetyChecks(query, safety, metrics.model, requestId),
+    apiKeyId ? recordApiKeySpend(apiKeyId, metrics.estimated_cost_usd, () => logMetrics(metrics)) : logMetrics(metrics),
+    logSafetyChecks(query, safety, metrics.model, requestId, metrics.conversation_id, outputSafety),
   ]);
 }
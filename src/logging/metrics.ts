@@ -1,57 +1,54 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { promises as fs } from 'fs';
 import type { QueryMetrics } from '../types';
+import { createLogStore, type LogStore } from './store';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const METRICS_DIR = path.join(__dirname, '..', '..', 'metrics');
-const METRICS_FILE = path.join(METRICS_DIR, 'metrics.json');
+const DEFAULT_METRICS_DIR = path.join(__dirname, '..', '..', 'metrics');
+
+const stores = new Map<string, LogStore<QueryMetrics>>();
 
 /**
- * Ensure metrics directory exists
+ * Metrics directory, overridable with METRICS_DIR (e.g. to keep test runs out of the real log)
  */
-async function ensureMetricsDir(): Promise<void> {
-  try {
-    await fs.mkdir(METRICS_DIR, { recursive: true });
-  } catch (error) {
-    console.error('Failed to create metrics directory:', error);
-  }
+function getMetricsDir(): string {
+  return process.env.METRICS_DIR || DEFAULT_METRICS_DIR;
 }
 
 /**
- * Load existing metrics from file
+ * Get the metrics log store, migrating the legacy `metrics.json` array on first use
  */
-async function loadMetrics(): Promise<QueryMetrics[]> {
-  try {
-    const data = await fs.readFile(METRICS_FILE, 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    // File doesn't exist yet, return empty array
-    return [];
+function getMetricsStore(): LogStore<QueryMetrics> {
+  const directory = getMetricsDir();
+  let store = stores.get(directory);
+  if (!store) {
+    store = createLogStore<QueryMetrics>({
+      directory,
+      baseName: 'metrics',
+      legacyFile: path.join(directory, 'metrics.json'),
+    });
+    stores.set(directory, store);
   }
+
+  return store;
 }
 
 /**
- * Save metrics to file
+ * Log a query metric to the metrics log
  */
-async function saveMetrics(metrics: QueryMetrics[]): Promise<void> {
+export async function logMetrics(metrics: QueryMetrics): Promise<void> {
   try {
-    await fs.writeFile(METRICS_FILE, JSON.stringify(metrics, null, 2), 'utf-8');
+    await getMetricsStore().append(metrics);
   } catch (error) {
     console.error('Failed to save metrics:', error);
   }
 }
 
 /**
- * Log a query metric to the metrics file
+ * Iterate over every logged query metric, oldest first, across rotated files (only one UTC day's with `date`)
  */
-export async function logMetrics(metrics: QueryMetrics): Promise<void> {
-  await ensureMetricsDir();
-  
-  const allMetrics = await loadMetrics();
-  allMetrics.push(metrics);
-  
-  await saveMetrics(allMetrics);
+export function readMetrics(options: { date?: string } = {}): AsyncGenerator<QueryMetrics> {
+  return getMetricsStore().read(options);
 }
@@ -1,81 +1,82 @@
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { promises as fs } from 'fs';
 import type { SafetyCheck } from '../types';
+import { createLogStore, type LogStore } from './store';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-const SAFETY_REPORTS_DIR = path.join(__dirname, '..', '..', 'reports', 'safety-reports');
+const DEFAULT_SAFETY_REPORTS_DIR = path.join(__dirname, '..', '..', 'reports', 'safety-reports');
 
-interface SafetyCheckLog {
+export interface SafetyCheckLog {
   timestamp: string;
   query: string;
   safety: SafetyCheck;
+  /** Output guard check of the response, when one was generated */
+  output_safety?: SafetyCheck;
   model?: string;
   request_id?: string;
+  conversation_id?: string;
 }
 
-/**
- * Ensure safety reports directory exists
- */
-async function ensureSafetyReportsDir(): Promise<void> {
-  try {
-    await fs.mkdir(SAFETY_REPORTS_DIR, { recursive: true });
-  } catch (error) {
-    console.error('Failed to create safety reports directory:', error);
-  }
-}
+const stores = new Map<string, LogStore<SafetyCheckLog>>();
 
 /**
- * Load existing safety check logs from file
+ * Safety reports directory, overridable with SAFETY_REPORTS_DIR (e.g. to keep test runs out of the real log)
  */
-async function loadSafetyChecks(): Promise<SafetyCheckLog[]> {
-  try {
-    const data = await fs.readFile(path.join(SAFETY_REPORTS_DIR, 'safety-checks.json'), 'utf-8');
-    return JSON.parse(data);
-  } catch (error) {
-    // File doesn't exist yet, return empty array
-    return [];
-  }
+function getSafetyReportsDir(): string {
+  return process.env.SAFETY_REPORTS_DIR || DEFAULT_SAFETY_REPORTS_DIR;
 }
 
 /**
- * Save safety check logs to file
+ * Get the safety check log store, migrating the legacy `safety-checks.json` array on first use
  */
-async function saveSafetyChecks(checks: SafetyCheckLog[]): Promise<void> {
-  try {
-    await fs.writeFile(
-      path.join(SAFETY_REPORTS_DIR, 'safety-checks.json'),
-      JSON.stringify(checks, null, 2),
-      'utf-8'
-    );
-  } catch (error) {
-    console.error('Failed to save safety checks:', error);
+function getSafetyChecksStore(): LogStore<SafetyCheckLog> {
+  const directory = getSafetyReportsDir();
+  let store = stores.get(directory);
+  if (!store) {
+    store = createLogStore<SafetyCheckLog>({
+      directory,
+      baseName: 'safety-checks',
+      legacyFile: path.join(directory, 'safety-checks.json'),
+    });
+    stores.set(directory, store);
   }
+
+  return store;
 }
 
 /**
- * Log a safety check to the safety reports file
+ * Log a safety check to the safety reports log
  */
 export async function logSafetyChecks(
   query: string,
   safety: SafetyCheck,
   model?: string,
-  requestId?: string
+  requestId?: string,
+  conversationId?: string,
+  outputSafety?: SafetyCheck
 ): Promise<void> {
-  await ensureSafetyReportsDir();
-
   const safetyLog: SafetyCheckLog = {
     timestamp: new Date().toISOString(),
     query: query.substring(0, 500),
     safety,
+    output_safety: outputSafety,
     model,
     request_id: requestId,
+    conversation_id: conversationId,
   };
 
-  const allChecks = await loadSafetyChecks();
-  allChecks.push(safetyLog);
+  try {
+    await getSafetyChecksStore().append(safetyLog);
+  } catch (error) {
+    console.error('Failed to save safety checks:', error);
+  }
+}
 
-  await saveSafetyChecks(allChecks);
+/**
+ * Iterate over every logged safety check, oldest first, across rotated files
+ */
+export function readSafetyChecks(): AsyncGenerator<SafetyCheckLog> {
+  return getSafetyChecksStore().read();
 }
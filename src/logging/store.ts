@@ -0,0 +1,189 @@
+import path from 'path';
+import readline from 'readline';
+import { createReadStream, promises as fs } from 'fs';
+
+/**
+ * Size after which the current log file is rotated, overridable with LOG_MAX_FILE_BYTES
+ */
+const DEFAULT_MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+export interface LogStoreOptions {
+  /** Directory holding the log files */
+  directory: string;
+  /** File name prefix, e.g. `metrics` for `metrics-2025-11-01.jsonl` */
+  baseName: string;
+  /** Legacy JSON-array file migrated into the store before the first write or read */
+  legacyFile?: string;
+  maxFileBytes?: number;
+}
+
+/**
+ * Append-only JSONL log, one file per UTC day, rotated into numbered segments when a file grows too large
+ */
+export interface LogStore<T> {
+  append(entry: T): Promise<void>;
+  /** Read every entry, oldest first, or only those in the files of one UTC `date` (`YYYY-MM-DD`) */
+  read(options?: { date?: string }): AsyncGenerator<T>;
+}
+
+interface LogFile {
+  name: string;
+  date: string;
+  segment: number;
+}
+
+interface SegmentState {
+  segment: number;
+  size: number;
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Create a JSONL log store. Writes are queued and applied one at a time, so concurrent appends never interleave
+ * or lose entries.
+ */
+export function createLogStore<T extends { timestamp?: string }>(options: LogStoreOptions): LogStore<T> {
+  const { directory, baseName, legacyFile } = options;
+  const maxFileBytes =
+    options.maxFileBytes ?? (Number.parseInt(`${process.env.LOG_MAX_FILE_BYTES}`, 10) || DEFAULT_MAX_FILE_BYTES);
+  const filePattern = new RegExp(`^${baseName}-(\\d{4}-\\d{2}-\\d{2})(?:\\.(\\d+))?\\.jsonl$`);
+  const segments = new Map<string, SegmentState>();
+
+  let writeQueue: Promise<void> = Promise.resolve();
+  let ready: Promise<void> | undefined;
+
+  function fileName(date: string, segment: number): string {
+    return segment === 0 ? `${baseName}-${date}.jsonl` : `${baseName}-${date}.${segment}.jsonl`;
+  }
+
+  async function listFiles(): Promise<LogFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch (error) {
+      // Directory doesn't exist yet
+      return [];
+    }
+
+    return names
+      .map((name) => {
+        const match = filePattern.exec(name);
+        return match ? { name, date: match[1], segment: Number(match[2] ?? 0) } : undefined;
+      })
+      .filter((file): file is LogFile => file !== undefined)
+      .sort((a, b) => a.date.localeCompare(b.date) || a.segment - b.segment);
+  }
+
+  /**
+   * Find the newest segment for a date, resuming from files written by earlier processes
+   */
+  async function currentSegment(date: string): Promise<SegmentState> {
+    let state = segments.get(date);
+    if (!state) {
+      const existing = (await listFiles()).filter((file) => file.date === date);
+      const last = existing[existing.length - 1];
+      state = { segment: last?.segment ?? 0, size: 0 };
+      if (last) {
+        state.size = (await fs.stat(path.join(directory, last.name))).size;
+      }
+      segments.set(date, state);
+    }
+
+    return state;
+  }
+
+  async function writeLines(date: string, lines: string): Promise<void> {
+    const state = await currentSegment(date);
+    const bytes = Buffer.byteLength(lines);
+    if (state.size > 0 && state.size + bytes > maxFileBytes) {
+      state.segment++;
+      state.size = 0;
+    }
+
+    await fs.appendFile(path.join(directory, fileName(date, state.segment)), lines, 'utf-8');
+    state.size += bytes;
+  }
+
+  /**
+   * One-time migration of a legacy JSON array log: entries are appended by their own date and the
+   * legacy file is renamed so it is never imported twice
+   */
+  async function migrateLegacyFile(): Promise<void> {
+    if (!legacyFile) {
+      return;
+    }
+
+    let entries: T[];
+    try {
+      entries = JSON.parse(await fs.readFile(legacyFile, 'utf-8'));
+    } catch (error) {
+      // No legacy file (or it is unreadable), nothing to migrate
+      return;
+    }
+
+    const byDate = new Map<string, string>();
+    for (const entry of Array.isArray(entries) ? entries : []) {
+      const timestamp = entry.timestamp ? new Date(entry.timestamp) : new Date();
+      const date = toDateKey(Number.isNaN(timestamp.getTime()) ? new Date() : timestamp);
+      byDate.set(date, (byDate.get(date) ?? '') + `${JSON.stringify(entry)}\n`);
+    }
+    for (const [date, lines] of byDate) {
+      await writeLines(date, lines);
+    }
+
+    await fs.rename(legacyFile, `${legacyFile}.migrated`);
+  }
+
+  function ensureReady(): Promise<void> {
+    if (!ready) {
+      ready = (async () => {
+        await fs.mkdir(directory, { recursive: true });
+        await migrateLegacyFile();
+      })();
+    }
+
+    return ready;
+  }
+
+  return {
+    append(entry: T): Promise<void> {
+      const write = writeQueue.then(async () => {
+        await ensureReady();
+        await writeLines(toDateKey(new Date()), `${JSON.stringify(entry)}\n`);
+      });
+      // Keep the queue going even if this write fails
+      writeQueue = write.catch(() => undefined);
+
+      return write;
+    },
+
+    async *read(options: { date?: string } = {}): AsyncGenerator<T> {
+      await ensureReady();
+      // Wait for queued writes so readers see everything appended before the read started
+      await writeQueue;
+
+      const files = (await listFiles()).filter((file) => !options.date || file.date === options.date);
+      for (const file of files) {
+        const lines = readline.createInterface({
+          input: createReadStream(path.join(directory, file.name), 'utf-8'),
+          crlfDelay: Infinity,
+        });
+
+        for await (const line of lines) {
+          if (line.trim().length === 0) {
+            continue;
+          }
+
+          try {
+            yield JSON.parse(line) as T;
+          } catch (error) {
+            console.error(`Skipping malformed log line in ${file.name}`);
+          }
+        }
+      }
+    },
+  };
+}
@@ -1,36 +1,61 @@
+import { findModelPricing, getPricingCatalog, type ModelPricing, type PricingMatch } from './pricing';
+
+/**
+ * Rough token estimate (~4 characters per token), deterministic for a given input
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+const warnedUnpricedModels = new Set<string>();
+
+/**
+ * Price of a model from the pricing catalog, or undefined when the catalog doesn't know it
+ */
+export function getModelPricing(model: string, at?: Date): PricingMatch | undefined {
+  return findModelPricing(getPricingCatalog(), model, at);
+}
+
 /**
- * Calculate estimated cost in USD based on model and token usage
- * Using OpenRouter pricing (approximate for common models)
+ * Price charged for unpriced models used with an API key: the highest prompt and completion prices in the
+ * catalog, so an unknown model never gets around a key's daily budget
+ */
+export function getUnpricedFallbackPricing(): ModelPricing {
+  const { models } = getPricingCatalog();
+  return {
+    prompt: Math.max(0, ...models.map((entry) => entry.prompt)),
+    completion: Math.max(0, ...models.map((entry) => entry.completion)),
+  };
+}
+
+/**
+ * Calculate estimated cost in USD based on model and token usage. `cachedPromptTokens` (part of `promptTokens`)
+ * are charged at the model's cached-input price. Unpriced models cost 0, or the fallback price with
+ * `chargeUnpriced`, and are logged once.
  */
 export function calculateCost(
   model: string,
   promptTokens: number,
-  completionTokens: number
+  completionTokens: number,
+  cachedPromptTokens = 0,
+  options: { chargeUnpriced?: boolean } = {}
 ): number {
-  const pricing: Record<string, { prompt: number; completion: number }> = {
-    'gpt-4': { prompt: 30.0, completion: 60.0 },
-    'gpt-4-turbo': { prompt: 10.0, completion: 30.0 },
-    'gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
-    'claude-3-opus': { prompt: 15.0, completion: 75.0 },
-    'claude-3-sonnet': { prompt: 3.0, completion: 15.0 },
-    'claude-3-haiku': { prompt: 0.25, completion: 1.25 },
-  };
-
-  // Find matching pricing (supports partial model names)
-  const modelKey = Object.keys(pricing).find((key) => model.includes(key));
-
-  if (!modelKey) {
-    const defaultPricing = pricing['gpt-3.5-turbo'];
-
-    return (
-      (promptTokens / 1_000_000) * defaultPricing.prompt +
-      (completionTokens / 1_000_000) * defaultPricing.completion
-    );
+  const modelPricing = getModelPricing(model);
+  if (!modelPricing) {
+    if (!warnedUnpricedModels.has(model)) {
+      warnedUnpricedModels.add(model);
+      console.error(`No pricing for model "${model}", its cost is recorded as 0 (the highest catalog price for API keys)`);
+    }
+    if (!options.chargeUnpriced) {
+      return 0;
+    }
   }
 
-  const modelPricing = pricing[modelKey];
+  const pricing = modelPricing ?? getUnpricedFallbackPricing();
+  const cachedTokens = Math.min(cachedPromptTokens, promptTokens);
   return (
-    (promptTokens / 1_000_000) * modelPricing.prompt +
-    (completionTokens / 1_000_000) * modelPricing.completion
+    ((promptTokens - cachedTokens) / 1_000_000) * pricing.prompt +
+    (cachedTokens / 1_000_000) * (pricing.cached_prompt ?? pricing.prompt) +
+    (completionTokens / 1_000_000) * pricing.completion
   );
 }
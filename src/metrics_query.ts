@@ -0,0 +1,163 @@
+import { readMetrics } from './logging';
+import type { QueryMetrics, QueryOutcome } from './types';
+
+export interface MetricsFilter {
+  from?: Date;
+  to?: Date;
+  model?: string;
+  request_id?: string;
+  api_key_id?: string;
+  team?: string;
+  experiment_id?: string;
+}
+
+export type MetricsGroupBy = 'model' | 'hour' | 'day' | 'api_key' | 'team' | 'prompt';
+
+export const METRICS_GROUP_BY: readonly MetricsGroupBy[] = ['model', 'hour', 'day', 'api_key', 'team', 'prompt'];
+
+export interface MetricsAggregate {
+  request_count: number;
+  latency_ms: {
+    p50: number;
+    p95: number;
+    p99: number;
+  };
+  cost_usd: {
+    total: number;
+    average: number;
+  };
+  tokens: {
+    prompt: number;
+    completion: number;
+    total: number;
+  };
+  error_rate: number;
+  blocked_rate: number;
+}
+
+/**
+ * Outcome of a logged query. Entries logged before outcomes were recorded count as ok when they used tokens.
+ */
+export function getOutcome(metrics: QueryMetrics): QueryOutcome {
+  return metrics.outcome ?? (metrics.total_tokens > 0 ? 'ok' : 'error');
+}
+
+/**
+ * Nearest-rank percentile of an ascending list of numbers (0 for an empty list)
+ */
+export function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+
+  const rank = Math.ceil((p / 100) * sortedValues.length);
+  return sortedValues[Math.min(Math.max(rank, 1), sortedValues.length) - 1];
+}
+
+function matchesFilter(metrics: QueryMetrics, filter: MetricsFilter): boolean {
+  const timestamp = new Date(metrics.timestamp).getTime();
+
+  if (filter.from && timestamp < filter.from.getTime()) {
+    return false;
+  }
+  if (filter.to && timestamp >= filter.to.getTime()) {
+    return false;
+  }
+  if (filter.model && metrics.model !== filter.model) {
+    return false;
+  }
+  if (filter.request_id && metrics.request_id !== filter.request_id) {
+    return false;
+  }
+  if (filter.api_key_id && metrics.api_key_id !== filter.api_key_id) {
+    return false;
+  }
+  if (filter.team && metrics.team !== filter.team) {
+    return false;
+  }
+  if (filter.experiment_id && metrics.experiment_id !== filter.experiment_id) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Read logged metrics matching the filter (`from` inclusive, `to` exclusive)
+ */
+export async function queryMetrics(filter: MetricsFilter = {}): Promise<QueryMetrics[]> {
+  const entries: QueryMetrics[] = [];
+  for await (const metrics of readMetrics()) {
+    if (matchesFilter(metrics, filter)) {
+      entries.push(metrics);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Summarize request counts, latency percentiles, cost, tokens and error/blocked rates
+ */
+export function aggregateMetrics(entries: QueryMetrics[]): MetricsAggregate {
+  const latencies = entries.map((metrics) => metrics.latency_ms).sort((a, b) => a - b);
+  const totalCost = entries.reduce((sum, metrics) => sum + metrics.estimated_cost_usd, 0);
+  const count = entries.length;
+  const countOutcome = (outcome: QueryOutcome) => entries.filter((metrics) => getOutcome(metrics) === outcome).length;
+
+  return {
+    request_count: count,
+    latency_ms: {
+      p50: percentile(latencies, 50),
+      p95: percentile(latencies, 95),
+      p99: percentile(latencies, 99),
+    },
+    cost_usd: {
+      total: totalCost,
+      average: count > 0 ? totalCost / count : 0,
+    },
+    tokens: {
+      prompt: entries.reduce((sum, metrics) => sum + metrics.tokens_prompt, 0),
+      completion: entries.reduce((sum, metrics) => sum + metrics.tokens_completion, 0),
+      total: entries.reduce((sum, metrics) => sum + metrics.total_tokens, 0),
+    },
+    error_rate: count > 0 ? countOutcome('error') / count : 0,
+    blocked_rate: count > 0 ? countOutcome('blocked') / count : 0,
+  };
+}
+
+function groupKey(metrics: QueryMetrics, groupBy: MetricsGroupBy): string {
+  switch (groupBy) {
+    case 'model':
+      return metrics.model;
+    case 'hour':
+      // e.g. 2025-11-01T13:00Z
+      return `${new Date(metrics.timestamp).toISOString().slice(0, 13)}:00Z`;
+    case 'day':
+      return new Date(metrics.timestamp).toISOString().slice(0, 10);
+    case 'api_key':
+      return metrics.api_key_id ?? 'unattributed';
+    case 'team':
+      return metrics.team ?? 'unattributed';
+    case 'prompt':
+      // e.g. main@2
+      return metrics.prompt_id ? `${metrics.prompt_id}@${metrics.prompt_version}` : 'unknown';
+  }
+}
+
+/**
+ * Aggregate metrics per model, UTC hour, UTC day, API key, team or prompt template version, with keys in ascending order
+ */
+export function groupMetrics(entries: QueryMetrics[], groupBy: MetricsGroupBy): Record<string, MetricsAggregate> {
+  const groups = new Map<string, QueryMetrics[]>();
+  for (const metrics of entries) {
+    const key = groupKey(metrics, groupBy);
+    const group = groups.get(key) ?? [];
+    group.push(metrics);
+    groups.set(key, group);
+  }
+
+  return Object.fromEntries(
+    [...groups.keys()].sort().map((key) => [key, aggregateMetrics(groups.get(key) ?? [])])
+  );
+}
@@ -0,0 +1,155 @@
+import path from 'path';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parseYamlLists } from './yaml';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_PRICING_FILE = path.join(__dirname, '..', '..', 'config', 'pricing.json');
+
+export interface ModelPricing {
+  /** USD per million prompt tokens */
+  prompt: number;
+  /** USD per million completion tokens */
+  completion: number;
+  /** USD per million prompt tokens served from the provider's prompt cache (defaults to `prompt`) */
+  cached_prompt?: number;
+}
+
+export interface PricingEntry extends ModelPricing {
+  /** Exact model id, optionally with a provider prefix (`anthropic/claude-3-haiku`), or... */
+  model?: string;
+  /** ...a glob where `*` matches anything (`gpt-4-turbo-*`) */
+  pattern?: string;
+  /** ISO date the price applies from; the most recent entry that is already in effect wins */
+  effective_from?: string;
+  /** Where the price came from, e.g. `openrouter` */
+  source?: string;
+}
+
+export interface PricingCatalog {
+  models: PricingEntry[];
+}
+
+export interface PricingMatch extends ModelPricing {
+  /** The `model` or `pattern` of the entry that matched */
+  matched: string;
+  effective_from?: string;
+}
+
+/**
+ * Drop a provider prefix: `anthropic/claude-3-haiku` → `claude-3-haiku`
+ */
+export function stripProviderPrefix(model: string): string {
+  return model.slice(model.lastIndexOf('/') + 1);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+function validateEntry(entry: PricingEntry, index: number, filePath: string): void {
+  const label = entry.model ?? entry.pattern ?? `#${index + 1}`;
+  if (!entry.model === !entry.pattern) {
+    throw new Error(`Pricing entry ${label} needs exactly one of "model" or "pattern": ${filePath}`);
+  }
+  if (!(entry.prompt >= 0) || !(entry.completion >= 0)) {
+    throw new Error(`Pricing entry ${label} needs non-negative "prompt" and "completion" prices: ${filePath}`);
+  }
+  if (entry.cached_prompt !== undefined && !(entry.cached_prompt >= 0)) {
+    throw new Error(`Pricing entry ${label} has an invalid "cached_prompt" price: ${filePath}`);
+  }
+  if (entry.effective_from !== undefined && Number.isNaN(new Date(entry.effective_from).getTime())) {
+    throw new Error(`Pricing entry ${label} has an invalid "effective_from" date: ${filePath}`);
+  }
+}
+
+/**
+ * Parse a pricing catalog (`{ "models": [PricingEntry, ...] }`) from JSON, or from YAML when the file name ends in
+ * `.yaml`/`.yml`
+ */
+export function parsePricingCatalog(text: string, filePath: string): PricingCatalog {
+  const data = /\.ya?ml$/i.test(filePath) ? parseYamlLists(text) : JSON.parse(text);
+  if (!Array.isArray(data?.models)) {
+    throw new Error(`Pricing catalog must contain a "models" list: ${filePath}`);
+  }
+
+  const models = (data.models as PricingEntry[]).map((entry) => {
+    const normalized: PricingEntry = { ...entry };
+    if (normalized.effective_from !== undefined) {
+      normalized.effective_from = String(normalized.effective_from);
+    }
+    for (const key of Object.keys(normalized) as Array<keyof PricingEntry>) {
+      if (normalized[key] === null) {
+        delete normalized[key];
+      }
+    }
+    return normalized;
+  });
+  models.forEach((entry, index) => validateEntry(entry, index, filePath));
+
+  return { models };
+}
+
+export function loadPricingCatalog(filePath: string): PricingCatalog {
+  return parsePricingCatalog(readFileSync(filePath, 'utf-8'), filePath);
+}
+
+/**
+ * Find the price of a model at a point in time. Exact ids win over the same id under a different (or no) provider
+ * prefix, which win over patterns (longest pattern first). Returns undefined for unpriced models.
+ */
+export function findModelPricing(catalog: PricingCatalog, model: string, at: Date = new Date()): PricingMatch | undefined {
+  const bareModel = stripProviderPrefix(model);
+  const inEffect = catalog.models.filter(
+    (entry) => !entry.effective_from || new Date(entry.effective_from).getTime() <= at.getTime()
+  );
+
+  const matchers: Array<(entry: PricingEntry) => boolean> = [
+    (entry) => entry.model === model,
+    (entry) => entry.model !== undefined && stripProviderPrefix(entry.model) === bareModel,
+    (entry) => entry.pattern !== undefined && (globToRegExp(entry.pattern).test(model) || globToRegExp(entry.pattern).test(bareModel)),
+  ];
+
+  for (const matches of matchers) {
+    const candidates = inEffect.filter(matches).sort(
+      (a, b) =>
+        (b.pattern?.length ?? 0) - (a.pattern?.length ?? 0) ||
+        new Date(b.effective_from ?? 0).getTime() - new Date(a.effective_from ?? 0).getTime()
+    );
+    const entry = candidates[0];
+    if (entry) {
+      return {
+        prompt: entry.prompt,
+        completion: entry.completion,
+        cached_prompt: entry.cached_prompt,
+        matched: (entry.model ?? entry.pattern) as string,
+        effective_from: entry.effective_from,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+let configuredCatalog: PricingCatalog | undefined;
+
+/**
+ * Override the pricing catalog (pass nothing to reload from PRICING_FILE)
+ */
+export function setPricingCatalog(catalog?: PricingCatalog): void {
+  configuredCatalog = catalog;
+}
+
+/**
+ * Get the pricing catalog, loaded once from PRICING_FILE (default `config/pricing.json`)
+ */
+export function getPricingCatalog(): PricingCatalog {
+  if (!configuredCatalog) {
+    configuredCatalog = loadPricingCatalog(process.env.PRICING_FILE || DEFAULT_PRICING_FILE);
+  }
+
+  return configuredCatalog;
+}
@@ -0,0 +1,3 @@
+export * from './catalog';
+export * from './openrouter';
+export * from './yaml';
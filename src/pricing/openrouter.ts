@@ -0,0 +1,96 @@
+import type { PricingEntry } from './catalog';
+
+/**
+ * A model in OpenRouter's `GET /api/v1/models` response. Prices are USD per token, as strings.
+ */
+interface OpenRouterModel {
+  id: string;
+  pricing?: {
+    prompt?: string;
+    completion?: string;
+    input_cache_read?: string;
+  };
+}
+
+function perMillionTokens(price: string | undefined): number | undefined {
+  const value = Number(price);
+  if (price === undefined || price === '' || Number.isNaN(value) || value < 0) {
+    return undefined;
+  }
+
+  // Round away floating point noise from the per-token strings
+  return Math.round(value * 1_000_000 * 1e6) / 1e6;
+}
+
+/**
+ * Convert an OpenRouter models-list dump (`{ "data": [...] }`) into pricing entries effective from `effectiveFrom`.
+ * Models without prompt and completion prices, or with negative ("variable") prices, are skipped.
+ */
+export function parseOpenRouterModels(dump: unknown, effectiveFrom: string): PricingEntry[] {
+  const models = (dump as { data?: unknown } | undefined)?.data;
+  if (!Array.isArray(models)) {
+    throw new Error('Expected an OpenRouter models list with a "data" array');
+  }
+
+  const entries: PricingEntry[] = [];
+  for (const model of models as OpenRouterModel[]) {
+    const prompt = perMillionTokens(model.pricing?.prompt);
+    const completion = perMillionTokens(model.pricing?.completion);
+    if (!model.id || prompt === undefined || completion === undefined) {
+      continue;
+    }
+
+    entries.push({
+      model: model.id,
+      prompt,
+      completion,
+      cached_prompt: perMillionTokens(model.pricing?.input_cache_read),
+      effective_from: effectiveFrom,
+      source: 'openrouter',
+    });
+  }
+
+  return entries;
+}
+
+function samePrices(a: PricingEntry, b: PricingEntry): boolean {
+  return a.prompt === b.prompt && a.completion === b.completion && a.cached_prompt === b.cached_prompt;
+}
+
+/**
+ * Add imported entries to a catalog. Existing entries are kept so older prices still apply to older dates; an
+ * imported price is only added when it differs from the model's latest known price.
+ * `added` counts new or changed prices.
+ */
+export function mergePricingEntries(
+  existing: PricingEntry[],
+  imported: PricingEntry[]
+): { models: PricingEntry[]; added: number; unchanged: number } {
+  const models = [...existing];
+  let added = 0;
+  let unchanged = 0;
+
+  for (const entry of imported) {
+    const latest = models
+      .filter((candidate) => candidate.model === entry.model)
+      .sort((a, b) => new Date(b.effective_from ?? 0).getTime() - new Date(a.effective_from ?? 0).getTime())[0];
+
+    if (latest && samePrices(latest, entry)) {
+      unchanged++;
+      continue;
+    }
+
+    // Re-importing on the same day replaces that day's price
+    const sameDay = models.findIndex(
+      (candidate) => candidate.model === entry.model && candidate.effective_from === entry.effective_from
+    );
+    if (sameDay === -1) {
+      models.push(entry);
+    } else {
+      models[sameDay] = entry;
+    }
+    added++;
+  }
+
+  return { models, added, unchanged };
+}
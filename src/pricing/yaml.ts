@@ -0,0 +1,87 @@
+/**
+ * Just enough YAML for pricing catalogs: a top-level key holding a list of flat `key: value` mappings.
+ *
+ *   models:
+ *     - model: anthropic/claude-3-haiku
+ *       prompt: 0.25
+ */
+
+type YamlScalar = string | number | boolean | null;
+
+function parseScalar(raw: string): YamlScalar {
+  const value = raw.trim();
+  if (/^(["']).*\1$/.test(value)) {
+    return value.slice(1, -1);
+  }
+  if (value === '' || value === '~' || value === 'null') {
+    return null;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+
+  return value !== '' && !Number.isNaN(Number(value)) ? Number(value) : value;
+}
+
+function stripComment(line: string): string {
+  // A `#` starts a comment at the start of a line or after whitespace, outside quotes
+  const match = /(^|\s)#(?=(?:[^"']|"[^"]*"|'[^']*')*$)/.exec(line);
+  return match ? line.slice(0, match.index) : line;
+}
+
+export function parseYamlLists(text: string): Record<string, Array<Record<string, YamlScalar>>> {
+  const result: Record<string, Array<Record<string, YamlScalar>>> = {};
+  let list: Array<Record<string, YamlScalar>> | undefined;
+  let item: Record<string, YamlScalar> | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = stripComment(rawLine).trimEnd();
+    if (line.trim() === '') {
+      return;
+    }
+
+    const topLevel = /^([\w-]+):\s*$/.exec(line);
+    if (topLevel) {
+      list = [];
+      item = undefined;
+      result[topLevel[1]] = list;
+      return;
+    }
+
+    const entry = /^\s+(-\s+)?([\w-]+):(.*)$/.exec(line);
+    if (!entry || !list || (!entry[1] && !item)) {
+      throw new Error(`Unsupported YAML on line ${index + 1}: ${rawLine.trim()}`);
+    }
+    if (entry[1]) {
+      item = {};
+      list.push(item);
+    }
+    (item as Record<string, YamlScalar>)[entry[2]] = parseScalar(entry[3]);
+  });
+
+  return result;
+}
+
+function formatScalar(value: unknown): string {
+  if (typeof value === 'string' && (value === '' || /[:#'"]|^\s|\s$/.test(value) || !Number.isNaN(Number(value)))) {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+}
+
+export function stringifyYamlLists<Item extends object>(lists: Record<string, Item[]>): string {
+  const lines: string[] = [];
+  for (const [key, items] of Object.entries(lists)) {
+    lines.push(`${key}:`);
+    for (const item of items) {
+      Object.entries(item)
+        .filter(([, value]) => value !== undefined)
+        .forEach(([field, value], index) => {
+          lines.push(`${index === 0 ? '  - ' : '    '}${field}: ${formatScalar(value)}`);
+        });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
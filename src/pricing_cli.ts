@@ -0,0 +1,87 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { parseArgs } from 'util';
+import { promises as fs } from 'fs';
+import { fileURLToPath } from 'url';
+import {
+  mergePricingEntries,
+  parseOpenRouterModels,
+  parsePricingCatalog,
+  stringifyYamlLists,
+  type PricingEntry,
+} from './pricing';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const USAGE = `Usage: pnpm pricing:import <openrouter-models.json> [options]
+
+Imports prices from an OpenRouter models list (curl https://openrouter.ai/api/v1/models > models.json)
+into the pricing catalog. Existing prices are kept; changed prices are added as new dated entries.
+
+Options:
+  -c, --catalog <file>          Catalog to update, .json or .yaml (default: PRICING_FILE or config/pricing.json)
+  -e, --effective-from <date>   Date the imported prices apply from (default: today)
+  -n, --dry-run                 Report what would change without writing
+  -h, --help                    Show this help`;
+
+async function readCatalogEntries(catalogPath: string): Promise<PricingEntry[]> {
+  let text: string;
+  try {
+    text = await fs.readFile(catalogPath, 'utf-8');
+  } catch (error) {
+    // Start a new catalog
+    return [];
+  }
+
+  return parsePricingCatalog(text, catalogPath).models;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      catalog: { type: 'string', short: 'c' },
+      'effective-from': { type: 'string', short: 'e' },
+      'dry-run': { type: 'boolean', short: 'n' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const effectiveFrom = values['effective-from'] ?? new Date().toISOString().slice(0, 10);
+  if (Number.isNaN(new Date(effectiveFrom).getTime())) {
+    throw new Error(`Invalid --effective-from date: ${effectiveFrom}`);
+  }
+
+  const catalogPath =
+    values.catalog || process.env.PRICING_FILE || path.join(__dirname, '..', 'config', 'pricing.json');
+  const imported = parseOpenRouterModels(JSON.parse(await fs.readFile(positionals[0], 'utf-8')), effectiveFrom);
+  const { models, added, unchanged } = mergePricingEntries(await readCatalogEntries(catalogPath), imported);
+
+  console.error(`💲 ${imported.length} priced models in the dump: ${added} new or changed, ${unchanged} unchanged`);
+
+  if (values['dry-run']) {
+    return;
+  }
+
+  const output = /\.ya?ml$/i.test(catalogPath)
+    ? stringifyYamlLists({ models })
+    : `${JSON.stringify({ models }, null, 2)}\n`;
+  // Validate before overwriting the catalog
+  parsePricingCatalog(output, catalogPath);
+  await fs.writeFile(catalogPath, output, 'utf-8');
+
+  console.error(`   Wrote ${models.length} entries to ${catalogPath}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Pricing import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+import type { QueryMetrics, SafetyCheck } from './types';
+import { getOutcome } from './metrics_query';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const LATENCY_BUCKETS_SECONDS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type Labels = Record<string, string>;
+
+interface PrometheusMetric {
+  render(): string[];
+}
+
+const registry: PrometheusMetric[] = [];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Labels are stored as a JSON key so each label combination gets its own series
+ */
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function createCounter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>();
+
+  const metric = {
+    inc(labels: Labels, value = 1): void {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    },
+
+    render(): string[] {
+      return [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        ...[...series.values()].map((entry) => `${name}${formatLabels(entry.labels)} ${entry.value}`),
+      ];
+    },
+  };
+  registry.push(metric);
+
+  return metric;
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  const metric = {
+    observe(labels: Labels, value: number): void {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bucket, index) => {
+        if (value <= bucket) {
+          entry.counts[index]++;
+        }
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    },
+
+    render(): string[] {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`];
+      for (const entry of series.values()) {
+        buckets.forEach((bucket, index) => {
+          lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: String(bucket) })} ${entry.counts[index]}`);
+        });
+        lines.push(`${name}_bucket${formatLabels({ ...entry.labels, le: '+Inf' })} ${entry.count}`);
+        lines.push(`${name}_sum${formatLabels(entry.labels)} ${entry.sum}`);
+        lines.push(`${name}_count${formatLabels(entry.labels)} ${entry.count}`);
+      }
+      return lines;
+    },
+  };
+  registry.push(metric);
+
+  return metric;
+}
+
+const requestsTotal = createCounter('llm_requests_total', 'Queries processed, by model and outcome (ok, blocked, error)');
+const requestLatency = createHistogram(
+  'llm_request_latency_seconds',
+  'End-to-end query latency in seconds',
+  LATENCY_BUCKETS_SECONDS
+);
+const tokensTotal = createCounter('llm_tokens_total', 'Tokens used, by model and type (prompt, completion)');
+const costTotal = createCounter('llm_cost_usd_total', 'Estimated LLM cost in USD, by model');
+const safetyChecksTotal = createCounter('llm_safety_checks_total', 'Input safety checks, by risk level and result');
+
+/**
+ * Record a processed query in the Prometheus counters and histograms
+ */
+export function recordQueryMetrics(metrics: QueryMetrics, safety: SafetyCheck): void {
+  const model = metrics.model;
+
+  requestsTotal.inc({ model, outcome: getOutcome(metrics) });
+  requestLatency.observe({ model }, metrics.latency_ms / 1000);
+  tokensTotal.inc({ model, type: 'prompt' }, metrics.tokens_prompt);
+  tokensTotal.inc({ model, type: 'completion' }, metrics.tokens_completion);
+  costTotal.inc({ model }, metrics.estimated_cost_usd);
+  safetyChecksTotal.inc({ risk_level: safety.risk_level, passed: String(safety.passed) });
+}
+
+/**
+ * Render every registered metric in the Prometheus text exposition format
+ */
+export function renderPrometheusMetrics(): string {
+  return `${registry.flatMap((metric) => metric.render()).join('\n')}\n`;
+}
@@ -0,0 +1,214 @@
+import path from 'path';
+import { promises as fs, watch, type FSWatcher } from 'fs';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_PROMPTS_DIR = path.join(__dirname, '..', 'prompts');
+
+/**
+ * Template used when a request doesn't pick one, overridable with PROMPT_TEMPLATE
+ */
+export const DEFAULT_PROMPT_ID = 'main';
+
+export interface PromptTemplate {
+  id: string;
+  version: string;
+  description?: string;
+  /** Models the template was written and tested for */
+  model_hints: string[];
+  temperature?: number;
+  /** Template body without the front-matter */
+  content: string;
+  file: string;
+}
+
+export interface PromptRegistry {
+  list(): PromptTemplate[];
+  /** Find a template by id, at an exact version or the latest one */
+  get(id: string, version?: string): PromptTemplate | undefined;
+}
+
+type FrontMatterValue = string | number | string[];
+
+function parseFrontMatterValue(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return value
+      .slice(1, -1)
+      .split(',')
+      .map((item) => item.trim().replace(/^["']|["']$/g, ''))
+      .filter((item) => item.length > 0);
+  }
+
+  const unquoted = value.replace(/^["']|["']$/g, '');
+  if (unquoted === value && value !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+
+  return unquoted;
+}
+
+/**
+ * Split a Markdown file into its `---` front-matter (simple `key: value` lines, `[a, b]` lists) and body
+ */
+export function parseFrontMatter(text: string): { metadata: Record<string, FrontMatterValue>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!match) {
+    return { metadata: {}, body: text };
+  }
+
+  const metadata: Record<string, FrontMatterValue> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (line.trim().startsWith('#') || separator === -1) {
+      continue;
+    }
+    metadata[line.slice(0, separator).trim()] = parseFrontMatterValue(line.slice(separator + 1));
+  }
+
+  return { metadata, body: text.slice(match[0].length) };
+}
+
+/**
+ * Compare versions numerically segment by segment ("1.10" > "1.9"), falling back to string order
+ */
+export function compareVersions(a: string, b: string): number {
+  const aParts = a.split('.');
+  const bParts = b.split('.');
+  for (let index = 0; index < Math.max(aParts.length, bParts.length); index++) {
+    const aPart = aParts[index] ?? '0';
+    const bPart = bParts[index] ?? '0';
+    const difference = Number(aPart) - Number(bPart);
+    if (Number.isNaN(difference)) {
+      const order = aPart.localeCompare(bPart);
+      if (order !== 0) {
+        return order;
+      }
+    } else if (difference !== 0) {
+      return difference;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Load every Markdown template in `directory`. Files without front-matter get their file name as id and version 1.
+ */
+export async function loadPromptRegistry(directory: string): Promise<PromptRegistry> {
+  const templates: PromptTemplate[] = [];
+
+  for (const name of (await fs.readdir(directory)).sort()) {
+    if (!name.endsWith('.md')) {
+      continue;
+    }
+
+    const file = path.join(directory, name);
+    const { metadata, body } = parseFrontMatter(await fs.readFile(file, 'utf-8'));
+    const template: PromptTemplate = {
+      id: String(metadata.id ?? path.basename(name, '.md')),
+      version: String(metadata.version ?? '1'),
+      description: metadata.description === undefined ? undefined : String(metadata.description),
+      model_hints: Array.isArray(metadata.model_hints) ? metadata.model_hints : [],
+      temperature: typeof metadata.temperature === 'number' ? metadata.temperature : undefined,
+      content: body.trim(),
+      file: name,
+    };
+
+    const duplicate = templates.find((existing) => existing.id === template.id && existing.version === template.version);
+    if (duplicate) {
+      throw new Error(`Prompt ${template.id}@${template.version} is defined in both ${duplicate.file} and ${name}`);
+    }
+    templates.push(template);
+  }
+
+  return {
+    list(): PromptTemplate[] {
+      return [...templates];
+    },
+
+    get(id: string, version?: string): PromptTemplate | undefined {
+      const candidates = templates.filter((template) => template.id === id);
+      if (version) {
+        return candidates.find((template) => template.version === version);
+      }
+
+      return candidates.sort((a, b) => compareVersions(b.version, a.version))[0];
+    },
+  };
+}
+
+let registry: Promise<PromptRegistry> | undefined;
+let watcher: FSWatcher | undefined;
+
+function getPromptsDir(): string {
+  return process.env.PROMPTS_DIR || DEFAULT_PROMPTS_DIR;
+}
+
+/**
+ * Reload templates on the next request whenever a file in the prompts directory changes
+ */
+function watchPromptsDir(directory: string): void {
+  if (watcher || process.env.PROMPT_HOT_RELOAD === 'false') {
+    return;
+  }
+
+  try {
+    watcher = watch(directory, () => {
+      registry = undefined;
+    });
+    // Don't keep CLI processes alive just to watch prompts
+    watcher.unref();
+  } catch (error) {
+    console.error('Failed to watch prompts directory, hot reload is disabled:', error);
+  }
+}
+
+/**
+ * Get the prompt registry, loaded once from PROMPTS_DIR (default `prompts/`) and cached until a template changes
+ */
+export function getPromptRegistry(): Promise<PromptRegistry> {
+  if (!registry) {
+    const directory = getPromptsDir();
+    const loading = loadPromptRegistry(directory);
+    loading.catch(() => {
+      // Retry on the next request instead of caching the failure
+      if (registry === loading) {
+        registry = undefined;
+      }
+    });
+    registry = loading;
+    watchPromptsDir(directory);
+  }
+
+  return registry;
+}
+
+/**
+ * Drop the cached templates so the next request reloads them
+ */
+export function reloadPromptRegistry(): void {
+  registry = undefined;
+}
+
+/**
+ * Template id used when a request doesn't pick one
+ */
+export function getDefaultPromptId(): string {
+  return process.env.PROMPT_TEMPLATE || DEFAULT_PROMPT_ID;
+}
+
+/**
+ * Resolve the template for a request, defaulting to PROMPT_TEMPLATE (or `main`) at its latest version
+ */
+export async function resolvePromptTemplate(id?: string, version?: string): Promise<PromptTemplate> {
+  const templateId = id || getDefaultPromptId();
+  const template = (await getPromptRegistry()).get(templateId, version);
+  if (!template) {
+    throw new Error(`Prompt template not found: ${version ? `${templateId}@${version}` : templateId}`);
+  }
+
+  return template;
+}
@@ -0,0 +1,255 @@
+import type { ModelAttempt } from '../types';
+
+export interface RetryPolicy {
+  /** Models tried, in order, after the requested one */
+  fallbackModels: string[];
+  /** Time limit for a single upstream call */
+  timeoutMs: number;
+  /** Retries of a model after a retryable error, before falling back to the next one */
+  maxRetries: number;
+  /** First backoff delay, doubled after every retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Read the retry policy from MODEL_FALLBACKS, LLM_TIMEOUT_MS, LLM_MAX_RETRIES and LLM_RETRY_BASE_DELAY_MS
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    fallbackModels: (process.env.MODEL_FALLBACKS ?? '')
+      .split(',')
+      .map((model) => model.trim())
+      .filter(Boolean),
+    timeoutMs: Number.parseInt(process.env.LLM_TIMEOUT_MS ?? '30000', 10),
+    maxRetries: Number.parseInt(process.env.LLM_MAX_RETRIES ?? '2', 10),
+    baseDelayMs: Number.parseInt(process.env.LLM_RETRY_BASE_DELAY_MS ?? '500', 10),
+    maxDelayMs: 10_000,
+  };
+}
+
+export class UpstreamTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super(`Upstream request timed out after ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+/**
+ * Thrown when every model in the chain failed or was skipped by its circuit breaker
+ */
+export class ModelFallbackError extends Error {
+  constructor(public readonly attempts: ModelAttempt[], public readonly lastError?: unknown) {
+    const lastMessage = lastError instanceof Error ? `: ${lastError.message}` : '';
+    super(`All models failed (${attempts.map((attempt) => `${attempt.model} ${attempt.outcome}`).join(', ')})${lastMessage}`);
+    this.name = 'ModelFallbackError';
+  }
+}
+
+/**
+ * Timeouts, rate limits, 5xx responses and connection failures are worth retrying; other 4xx responses are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof UpstreamTimeoutError) {
+    return true;
+  }
+
+  const status = (error as { status?: unknown } | undefined)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  // No HTTP status: the request never got a response (connection reset, DNS failure, ...)
+  return true;
+}
+
+/**
+ * Run an upstream call with a time limit, aborting it through the signal when the limit is reached
+ */
+export async function withTimeout<T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new UpstreamTimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreaker {
+  /** False while the model's circuit is open; once the cooldown has passed a single trial call is let through */
+  canAttempt(model: string): boolean;
+  recordSuccess(model: string): void;
+  recordFailure(model: string): void;
+  getState(model: string): CircuitState;
+}
+
+interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Track consecutive failures per model and skip a model for `cooldownMs` once they reach the threshold
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const circuits = new Map<string, { failures: number; openedAt?: number; trialInFlight: boolean }>();
+
+  const getCircuit = (model: string) => {
+    let circuit = circuits.get(model);
+    if (!circuit) {
+      circuit = { failures: 0, trialInFlight: false };
+      circuits.set(model, circuit);
+    }
+    return circuit;
+  };
+
+  const getState = (model: string): CircuitState => {
+    const circuit = circuits.get(model);
+    if (circuit?.openedAt === undefined) {
+      return 'closed';
+    }
+
+    return Date.now() - circuit.openedAt >= options.cooldownMs ? 'half_open' : 'open';
+  };
+
+  return {
+    canAttempt(model: string): boolean {
+      const state = getState(model);
+      if (state !== 'half_open') {
+        return state === 'closed';
+      }
+
+      const circuit = getCircuit(model);
+      if (circuit.trialInFlight) {
+        return false;
+      }
+      circuit.trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess(model: string): void {
+      circuits.delete(model);
+    },
+
+    recordFailure(model: string): void {
+      const circuit = getCircuit(model);
+      circuit.failures++;
+      if (circuit.trialInFlight || circuit.failures >= options.failureThreshold) {
+        // A failed trial re-opens the circuit for another cooldown
+        circuit.openedAt = Date.now();
+      }
+      circuit.trialInFlight = false;
+    },
+
+    getState,
+  };
+}
+
+let circuitBreaker: CircuitBreaker | undefined;
+
+/**
+ * Override the circuit breaker (pass nothing to create a fresh one from CIRCUIT_BREAKER_THRESHOLD and
+ * CIRCUIT_BREAKER_COOLDOWN_SECONDS on next use)
+ */
+export function setCircuitBreaker(breaker?: CircuitBreaker): void {
+  circuitBreaker = breaker;
+}
+
+/**
+ * Get the process-wide circuit breaker shared by all queries
+ */
+export function getCircuitBreaker(): CircuitBreaker {
+  if (!circuitBreaker) {
+    circuitBreaker = createCircuitBreaker({
+      failureThreshold: Number.parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD ?? '5', 10),
+      cooldownMs: Number.parseInt(process.env.CIRCUIT_BREAKER_COOLDOWN_SECONDS ?? '30', 10) * 1000,
+    });
+  }
+
+  return circuitBreaker;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface FallbackOptions {
+  policy?: RetryPolicy;
+  breaker?: CircuitBreaker;
+  /** Checked after a failure; returning false gives up immediately (e.g. once streamed output reached the client) */
+  canRetry?: () => boolean;
+}
+
+/**
+ * Call each model in turn until one succeeds: retryable errors are retried with exponential backoff, then the
+ * next model is tried. Models whose circuit is open are skipped, and only retryable errors count towards opening
+ * it. Throws a ModelFallbackError when all fail.
+ */
+export async function callWithFallback<T>(
+  models: string[],
+  call: (model: string, signal: AbortSignal) => Promise<T>,
+  options: FallbackOptions = {}
+): Promise<{ result: T; model: string; attempts: ModelAttempt[] }> {
+  const policy = options.policy ?? getRetryPolicy();
+  const breaker = options.breaker ?? getCircuitBreaker();
+  const attempts: ModelAttempt[] = [];
+  let lastError: unknown;
+
+  for (const model of [...new Set(models)]) {
+    for (let retry = 0; retry <= policy.maxRetries; retry++) {
+      if (!breaker.canAttempt(model)) {
+        if (retry === 0) {
+          attempts.push({ model, outcome: 'skipped', latency_ms: 0, error: 'Circuit open' });
+        }
+        break;
+      }
+
+      const startTime = Date.now();
+      try {
+        const result = await withTimeout(policy.timeoutMs, (signal) => call(model, signal));
+        breaker.recordSuccess(model);
+        attempts.push({ model, outcome: 'ok', latency_ms: Date.now() - startTime });
+
+        return { result, model, attempts };
+      } catch (error) {
+        const retryable = isRetryableError(error);
+        // A bad request (or a replay miss) says nothing about the model's health, so it never opens the circuit
+        if (retryable) {
+          breaker.recordFailure(model);
+        } else {
+          breaker.recordSuccess(model);
+        }
+        lastError = error;
+        attempts.push({
+          model,
+          outcome: error instanceof UpstreamTimeoutError ? 'timeout' : 'error',
+          latency_ms: Date.now() - startTime,
+          error: error instanceof Error ? error.message : String(error),
+        });
+
+        if (options.canRetry && !options.canRetry()) {
+          throw new ModelFallbackError(attempts, error);
+        }
+        if (!retryable) {
+          break;
+        }
+        if (retry < policy.maxRetries) {
+          await sleep(Math.min(policy.baseDelayMs * 2 ** retry, policy.maxDelayMs));
+        }
+      }
+    }
+  }
+
+  throw new ModelFallbackError(attempts, lastError);
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createMockProvider, loadMockFixtures } from './mock';
+import {
+  createCompatibleProviderFromEnv,
+  createOpenAIProvider,
+  createOpenRouterProvider,
+} from './openai';
+import { createRecordingProvider, createReplayProvider, loadRecordings, type ReplayMatchMode } from './recording';
+import type { LLMProvider } from './types';
+
+export * from './types';
+export * from './fallback';
+export * from './mock';
+export * from './openai';
+export * from './recording';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_RECORDINGS_DIR = path.join(__dirname, '..', '..', 'recordings');
+
+/**
+ * Directory that LLM_RECORD=true writes recordings to and LLM_PROVIDER=replay reads them from
+ */
+export function getRecordingsDir(): string {
+  return process.env.LLM_RECORDINGS_DIR || DEFAULT_RECORDINGS_DIR;
+}
+
+let configuredProvider: LLMProvider | undefined;
+
+/**
+ * Override the provider used by processQuery (pass nothing to go back to env-based selection)
+ */
+export function setProvider(provider?: LLMProvider): void {
+  configuredProvider = provider;
+}
+
+/**
+ * Create a provider from the LLM_PROVIDER environment variable.
+ * Without LLM_PROVIDER, OpenRouter is used when its key is set, then OpenAI.
+ */
+async function createProviderFromEnv(): Promise<LLMProvider> {
+  const providerName = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAIProvider();
+    case 'openrouter':
+      return createOpenRouterProvider();
+    case 'compatible':
+      return createCompatibleProviderFromEnv();
+    case 'mock': {
+      const fixturesPath = process.env.MOCK_PROVIDER_FIXTURES;
+      return createMockProvider(fixturesPath ? await loadMockFixtures(fixturesPath) : []);
+    }
+    case 'replay': {
+      const match = (process.env.LLM_REPLAY_MATCH || 'strict') as ReplayMatchMode;
+      if (match !== 'strict' && match !== 'fuzzy') {
+        throw new Error(`Unknown LLM_REPLAY_MATCH: ${match}`);
+      }
+      return createReplayProvider(await loadRecordings(getRecordingsDir()), { match });
+    }
+    case undefined:
+    case '':
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${providerName}`);
+  }
+
+  if (process.env.OPENROUTER_API_KEY) {
+    return createOpenRouterProvider();
+  }
+  if (process.env.OPENAI_API_KEY) {
+    return createOpenAIProvider();
+  }
+
+  throw new Error('Either OPENROUTER_API_KEY or OPENAI_API_KEY must be set');
+}
+
+/**
+ * Get the provider processQuery should talk to. With LLM_RECORD=true its completions are recorded under
+ * LLM_RECORDINGS_DIR.
+ */
+export async function getProvider(): Promise<LLMProvider> {
+  const provider = configuredProvider ?? (await createProviderFromEnv());
+  return process.env.LLM_RECORD === 'true' ? createRecordingProvider(provider, getRecordingsDir()) : provider;
+}
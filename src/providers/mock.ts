@@ -0,0 +1,113 @@
+import { promises as fs } from 'fs';
+import { estimateTokens } from '../metrics';
+import type {
+  CompletionRequest,
+  CompletionResponse,
+  ContentDeltaHandler,
+  LLMProvider,
+  TokenUsage,
+} from './types';
+
+const STREAM_CHUNK_SIZE = 16;
+
+export interface MockFixture {
+  /** Case-insensitive substring, or `/pattern/flags`, matched against the last user message. Omit to match anything */
+  match?: string;
+  /** Completion content to return; objects are serialized as JSON */
+  response?: string | object;
+  /** Tools to call instead of answering; object arguments are serialized as JSON */
+  tool_calls?: Array<{ name: string; arguments: string | object }>;
+  /** Token usage to report; estimated from message lengths when omitted */
+  usage?: TokenUsage;
+  /** Consume the fixture after its first use, so later requests fall through to the next match */
+  once?: boolean;
+}
+
+const DEFAULT_MOCK_RESPONSE = {
+  answer: 'This is a mock response from the local provider.',
+  confidence: 0.5,
+  actions: ['Contact support if you need further assistance'],
+  category: 'other',
+  tags: ['mock'],
+};
+
+function matchesFixture(fixture: MockFixture, text: string): boolean {
+  if (!fixture.match) {
+    return true;
+  }
+
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(fixture.match);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(text);
+  }
+
+  return text.toLowerCase().includes(fixture.match.toLowerCase());
+}
+
+/**
+ * Create a deterministic provider that answers from scripted fixtures instead of calling a model.
+ * Fixtures are checked in order; the first match wins. Unmatched requests get a generic valid response.
+ */
+export function createMockProvider(fixtures: MockFixture[] = []): LLMProvider {
+  const remaining = [...fixtures];
+  let callCount = 0;
+
+  function respond(request: CompletionRequest): CompletionResponse {
+    const lastUserMessage = [...request.messages].reverse().find((message) => message.role === 'user');
+    const index = remaining.findIndex((fixture) => matchesFixture(fixture, lastUserMessage?.content ?? ''));
+    const fixture = index === -1 ? undefined : remaining[index];
+    if (fixture?.once) {
+      remaining.splice(index, 1);
+    }
+
+    const toolCalls = fixture?.tool_calls?.map(({ name, arguments: args }) => ({
+      id: `call_${++callCount}`,
+      type: 'function' as const,
+      function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) },
+    }));
+    const response = fixture?.response ?? (toolCalls ? '' : DEFAULT_MOCK_RESPONSE);
+    const content = typeof response === 'string' ? response : JSON.stringify(response);
+    const promptTokens = request.messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    const completionTokens = estimateTokens(content);
+
+    return {
+      content,
+      usage: fixture?.usage ?? {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+      },
+      ...(toolCalls && { tool_calls: toolCalls }),
+    };
+  }
+
+  return {
+    name: 'mock',
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      return respond(request);
+    },
+
+    async stream(request: CompletionRequest, onDelta: ContentDeltaHandler): Promise<CompletionResponse> {
+      const completion = respond(request);
+      for (let offset = 0; offset < completion.content.length; offset += STREAM_CHUNK_SIZE) {
+        await onDelta(completion.content.slice(offset, offset + STREAM_CHUNK_SIZE));
+      }
+
+      return completion;
+    },
+  };
+}
+
+/**
+ * Load mock fixtures from a JSON file containing an array of MockFixture entries
+ */
+export async function loadMockFixtures(filePath: string): Promise<MockFixture[]> {
+  const data = await fs.readFile(filePath, 'utf-8');
+  const fixtures = JSON.parse(data);
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`Mock fixtures file must contain a JSON array: ${filePath}`);
+  }
+
+  return fixtures;
+}
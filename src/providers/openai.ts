@@ -0,0 +1,175 @@
+import OpenAI from 'openai';
+import type {
+  ChatMessage,
+  CompletionOptions,
+  CompletionRequest,
+  CompletionResponse,
+  ContentDeltaHandler,
+  LLMProvider,
+  ToolCall,
+} from './types';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+interface OpenAICompatibleOptions {
+  name: string;
+  apiKey: string;
+  baseURL?: string;
+  defaultHeaders?: Record<string, string | undefined>;
+}
+
+/**
+ * Map a chat message to the SDK's per-role message types
+ */
+function toOpenAIMessage(message: ChatMessage): OpenAI.ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', content: message.content, tool_call_id: message.tool_call_id ?? '' };
+    case 'assistant':
+      return message.tool_calls?.length
+        ? { role: 'assistant', content: message.content || null, tool_calls: message.tool_calls }
+        : { role: 'assistant', content: message.content };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+function toOpenAIRequest(request: CompletionRequest): OpenAI.ChatCompletionCreateParamsNonStreaming {
+  const { tools, tool_choice, ...rest } = request;
+  return {
+    ...rest,
+    messages: request.messages.map(toOpenAIMessage),
+    // Endpoints without tool support reject an empty `tools` array
+    ...(tools?.length && { tools, tool_choice }),
+  };
+}
+
+/**
+ * Create a provider for any endpoint that speaks the OpenAI chat-completions API
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+    defaultHeaders: options.defaultHeaders,
+    // Retries, timeouts and fallbacks are handled by processQuery
+    maxRetries: 0,
+  });
+
+  return {
+    name: options.name,
+
+    async complete(request: CompletionRequest, completionOptions?: CompletionOptions): Promise<CompletionResponse> {
+      const completionResponse = await client.chat.completions.create(toOpenAIRequest(request), {
+        signal: completionOptions?.signal,
+      });
+      const message = completionResponse.choices[0]?.message;
+      const toolCalls = message?.tool_calls?.filter((call) => call.type === 'function');
+
+      return {
+        content: message?.content || (toolCalls?.length ? '' : '{}'),
+        usage: completionResponse.usage,
+        ...(toolCalls?.length && {
+          tool_calls: toolCalls.map(({ id, function: { name, arguments: args } }) => ({
+            id,
+            type: 'function' as const,
+            function: { name, arguments: args },
+          })),
+        }),
+      };
+    },
+
+    async stream(
+      request: CompletionRequest,
+      onDelta: ContentDeltaHandler,
+      completionOptions?: CompletionOptions
+    ): Promise<CompletionResponse> {
+      const stream = await client.chat.completions.create(
+        {
+          ...toOpenAIRequest(request),
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal: completionOptions?.signal }
+      );
+
+      let content = '';
+      let usage: OpenAI.CompletionUsage | undefined;
+      // Tool calls arrive in fragments keyed by index: the id and name first, then pieces of the arguments
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+
+        for (const fragment of chunk.choices[0]?.delta?.tool_calls ?? []) {
+          const call = (toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } });
+          call.id = fragment.id ?? call.id;
+          call.function.name += fragment.function?.name ?? '';
+          call.function.arguments += fragment.function?.arguments ?? '';
+        }
+
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          await onDelta(delta);
+        }
+      }
+
+      const calls = toolCalls.filter(Boolean);
+      return {
+        content: content || (calls.length > 0 ? '' : '{}'),
+        usage,
+        ...(calls.length > 0 && { tool_calls: calls }),
+      };
+    },
+  };
+}
+
+/**
+ * Create a provider for the OpenAI API
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+  if (!OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY must be set to use the openai provider');
+  }
+
+  return createOpenAICompatibleProvider({ name: 'openai', apiKey: OPENAI_API_KEY });
+}
+
+/**
+ * Create a provider for the OpenRouter API, including its attribution headers
+ */
+export function createOpenRouterProvider(): LLMProvider {
+  const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
+  if (!OPENROUTER_API_KEY) {
+    throw new Error('OPENROUTER_API_KEY must be set to use the openrouter provider');
+  }
+
+  return createOpenAICompatibleProvider({
+    name: 'openrouter',
+    apiKey: OPENROUTER_API_KEY,
+    baseURL: OPENROUTER_BASE_URL,
+    defaultHeaders: {
+      'HTTP-Referer': process.env.OPENROUTER_REFERER_URL,
+      'X-Title': process.env.OPENROUTER_APP_NAME,
+    },
+  });
+}
+
+/**
+ * Create a provider for a self-hosted or third-party OpenAI-compatible endpoint (vLLM, Ollama, LiteLLM, ...)
+ */
+export function createCompatibleProviderFromEnv(): LLMProvider {
+  const LLM_BASE_URL = process.env.LLM_BASE_URL;
+  if (!LLM_BASE_URL) {
+    throw new Error('LLM_BASE_URL must be set to use the compatible provider');
+  }
+
+  return createOpenAICompatibleProvider({
+    name: 'compatible',
+    apiKey: process.env.LLM_API_KEY || 'not-needed',
+    baseURL: LLM_BASE_URL,
+  });
+}
@@ -0,0 +1,245 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import type {
+  CompletionOptions,
+  CompletionRequest,
+  CompletionResponse,
+  ContentDeltaHandler,
+  LLMProvider,
+} from './types';
+
+const STREAM_CHUNK_SIZE = 16;
+
+/**
+ * Recordings of calls made without a request id go to this file
+ */
+const UNATTRIBUTED_RECORDING = '_unattributed';
+
+/**
+ * One upstream chat-completion call, as sent (after PII redaction) and as answered
+ */
+export interface RecordedInteraction {
+  /** Hash of the request, used for strict replay matching */
+  key: string;
+  recorded_at: string;
+  request_id?: string;
+  /** Provider that answered */
+  provider: string;
+  request: CompletionRequest;
+  response: CompletionResponse;
+  streamed: boolean;
+  latency_ms: number;
+}
+
+/**
+ * `strict` replays only identical requests; `fuzzy` ignores the model, temperature and system prompt and accepts
+ * conversation text that is close enough, so recordings survive prompt edits and fallback changes
+ */
+export type ReplayMatchMode = 'strict' | 'fuzzy';
+
+export interface ReplayOptions {
+  match?: ReplayMatchMode;
+  /** Minimum word overlap (0-1) of every user and assistant message for a fuzzy match (default 0.8) */
+  fuzzyThreshold?: number;
+}
+
+/**
+ * Thrown by a replay provider when no recording matches the request
+ */
+export class ReplayMissError extends Error {
+  // Not retryable: asking again would miss again
+  readonly status = 404;
+
+  constructor(request: CompletionRequest, match: ReplayMatchMode) {
+    const question = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    super(`No recorded completion matches this ${request.model} request (${match} match): "${question.slice(0, 80)}"`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Hash of everything that determines the completion: model, messages, temperature, response format and tools
+ */
+export function hashCompletionRequest(request: CompletionRequest): string {
+  const { model, messages, temperature, response_format, tools } = request;
+  // Tool fields are only added when present, so recordings made before tool calling keep their keys
+  const turns = messages.map(({ role, content, tool_calls }) => (tool_calls ? [role, content, tool_calls] : [role, content]));
+  return createHash('sha256')
+    .update(JSON.stringify([model, turns, temperature, response_format ?? null, ...(tools ? [tools] : [])]))
+    .digest('hex');
+}
+
+/**
+ * File name for a request id's recordings; anything outside `[A-Za-z0-9._-]` becomes `_`
+ */
+function recordingFile(directory: string, requestId?: string): string {
+  const name = requestId ? requestId.replace(/[^A-Za-z0-9._-]/g, '_') : UNATTRIBUTED_RECORDING;
+  return path.join(directory, `${name}.jsonl`);
+}
+
+/**
+ * Wrap a provider so every completion it returns is appended to `<directory>/<request id>.jsonl`, one
+ * RecordedInteraction per line in call order. Failed calls are not recorded.
+ */
+export function createRecordingProvider(provider: LLMProvider, directory: string): LLMProvider {
+  async function record(
+    request: CompletionRequest,
+    options: CompletionOptions | undefined,
+    streamed: boolean,
+    call: () => Promise<CompletionResponse>
+  ): Promise<CompletionResponse> {
+    // Copied up front: processQuery appends repair turns to the same message list
+    const sentRequest = structuredClone(request);
+    const startTime = Date.now();
+    const response = await call();
+
+    const interaction: RecordedInteraction = {
+      key: hashCompletionRequest(sentRequest),
+      recorded_at: new Date().toISOString(),
+      request_id: options?.requestId,
+      provider: provider.name,
+      request: sentRequest,
+      response,
+      streamed,
+      latency_ms: Date.now() - startTime,
+    };
+    await fs.mkdir(directory, { recursive: true });
+    await fs.appendFile(recordingFile(directory, options?.requestId), `${JSON.stringify(interaction)}\n`, 'utf-8');
+
+    return response;
+  }
+
+  return {
+    name: provider.name,
+
+    complete(request: CompletionRequest, options?: CompletionOptions): Promise<CompletionResponse> {
+      return record(request, options, false, () => provider.complete(request, options));
+    },
+
+    stream(request: CompletionRequest, onDelta: ContentDeltaHandler, options?: CompletionOptions): Promise<CompletionResponse> {
+      return record(request, options, true, () => provider.stream(request, onDelta, options));
+    },
+  };
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}_']+/gu) ?? []);
+}
+
+/**
+ * Jaccard overlap of the words in two texts (1 for two empty texts)
+ */
+function wordOverlap(a: string, b: string): number {
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 && wordsB.size === 0) {
+    return 1;
+  }
+
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Lowest word overlap across the user and assistant messages, or 0 when the turns don't line up
+ */
+function fuzzyScore(recorded: CompletionRequest, request: CompletionRequest): number {
+  const turns = (messages: CompletionRequest['messages']) => messages.filter((message) => message.role !== 'system');
+  const recordedTurns = turns(recorded.messages);
+  const requestTurns = turns(request.messages);
+  if (recordedTurns.length !== requestTurns.length) {
+    return 0;
+  }
+
+  return requestTurns.reduce((score, message, index) => {
+    const recordedMessage = recordedTurns[index];
+    return recordedMessage.role === message.role ? Math.min(score, wordOverlap(recordedMessage.content, message.content)) : 0;
+  }, 1);
+}
+
+/**
+ * Create a provider that answers from recorded interactions instead of calling a model. Identical requests get
+ * their recordings in recorded order (the last one is reused once they run out), so repeated and repaired calls
+ * replay as they happened. Unmatched requests throw a ReplayMissError.
+ */
+export function createReplayProvider(interactions: RecordedInteraction[], options: ReplayOptions = {}): LLMProvider {
+  const match = options.match ?? 'strict';
+  const fuzzyThreshold = options.fuzzyThreshold ?? 0.8;
+  const used = new Set<number>();
+
+  function findRecording(request: CompletionRequest): RecordedInteraction {
+    let candidates: Array<{ index: number; score: number }>;
+    if (match === 'strict') {
+      const key = hashCompletionRequest(request);
+      candidates = interactions.flatMap((interaction, index) => (interaction.key === key ? [{ index, score: 1 }] : []));
+    } else {
+      candidates = interactions
+        .map((interaction, index) => ({ index, score: fuzzyScore(interaction.request, request) }))
+        .filter((candidate) => candidate.score >= fuzzyThreshold);
+    }
+    if (candidates.length === 0) {
+      throw new ReplayMissError(request, match);
+    }
+
+    const best = (list: typeof candidates) =>
+      list.reduce((top, candidate) => (candidate.score > top.score ? candidate : top), list[0]);
+    const unused = candidates.filter((candidate) => !used.has(candidate.index));
+    // Once every match was replayed, the latest of the best ones is reused
+    const chosen = unused.length > 0 ? best(unused) : best([...candidates].reverse());
+    used.add(chosen.index);
+
+    return interactions[chosen.index];
+  }
+
+  return {
+    name: 'replay',
+
+    async complete(request: CompletionRequest): Promise<CompletionResponse> {
+      return findRecording(request).response;
+    },
+
+    async stream(request: CompletionRequest, onDelta: ContentDeltaHandler): Promise<CompletionResponse> {
+      const { response } = findRecording(request);
+      for (let offset = 0; offset < response.content.length; offset += STREAM_CHUNK_SIZE) {
+        await onDelta(response.content.slice(offset, offset + STREAM_CHUNK_SIZE));
+      }
+
+      return response;
+    },
+  };
+}
+
+/**
+ * Read recorded interactions from a `.jsonl` recording file, or from every recording file in a directory
+ */
+export async function loadRecordings(fileOrDirectory: string): Promise<RecordedInteraction[]> {
+  const stat = await fs.stat(fileOrDirectory);
+  const files = stat.isDirectory()
+    ? (await fs.readdir(fileOrDirectory))
+        .filter((name) => name.endsWith('.jsonl'))
+        .sort()
+        .map((name) => path.join(fileOrDirectory, name))
+    : [fileOrDirectory];
+
+  const interactions: RecordedInteraction[] = [];
+  for (const file of files) {
+    const lines = (await fs.readFile(file, 'utf-8')).split('\n').filter((line) => line.trim().length > 0);
+    lines.forEach((line, index) => {
+      try {
+        interactions.push(JSON.parse(line));
+      } catch (error) {
+        throw new Error(`Invalid recording on line ${index + 1} of ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  return interactions;
+}
+
+/**
+ * Read the interactions recorded for one request id, in call order
+ */
+export async function loadRequestRecording(directory: string, requestId: string): Promise<RecordedInteraction[]> {
+  return loadRecordings(recordingFile(directory, requestId));
+}
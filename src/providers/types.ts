@@ -0,0 +1,94 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  /** Tools the model asked to call (assistant messages) */
+  tool_calls?: ToolCall[];
+  /** Call the message answers (tool messages) */
+  tool_call_id?: string;
+}
+
+/**
+ * A function the model may call, described in the OpenAI `tools` format
+ */
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    /** JSON Schema of the arguments object */
+    parameters: Record<string, unknown>;
+  };
+}
+
+/**
+ * A call the model asked for; `arguments` is the JSON text the model generated, not yet validated
+ */
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export type ResponseFormat =
+  | { type: 'json_object' }
+  | { type: 'text' }
+  | {
+      type: 'json_schema';
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: Record<string, unknown>;
+        strict?: boolean;
+      };
+    };
+
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  response_format?: ResponseFormat;
+  tools?: ToolDefinition[];
+  /** `none` makes the model answer instead of calling another tool */
+  tool_choice?: 'auto' | 'none';
+}
+
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+}
+
+export interface CompletionResponse {
+  content: string;
+  usage?: TokenUsage;
+  /** Set when the model called tools instead of answering */
+  tool_calls?: ToolCall[];
+}
+
+export interface CompletionOptions {
+  /** Aborted when the attempt times out */
+  signal?: AbortSignal;
+  /** Request the completion is made for, used to file recordings */
+  requestId?: string;
+}
+
+/**
+ * Receives each new fragment of generated content while a completion is streamed
+ */
+export type ContentDeltaHandler = (delta: string) => void | Promise<void>;
+
+/**
+ * A chat-completion backend that processQuery talks to
+ */
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: CompletionRequest, options?: CompletionOptions): Promise<CompletionResponse>;
+  stream(request: CompletionRequest, onDelta: ContentDeltaHandler, options?: CompletionOptions): Promise<CompletionResponse>;
+}
@@ -0,0 +1,87 @@
+import dotenv from 'dotenv';
+import { parseArgs } from 'util';
+import {
+  createReplayProvider,
+  getRecordingsDir,
+  loadRequestRecording,
+  setProvider,
+  type ChatMessage,
+  type ReplayMatchMode,
+} from './providers';
+import { processQuery } from './run_query';
+
+dotenv.config();
+
+const USAGE = `Usage: pnpm replay <request_id> [options]
+
+Re-runs a recorded request (recorded with LLM_RECORD=true) through processQuery, answering from its
+recording, and prints the QueryResult. Use --live to send the recorded question to the model again.
+
+Options:
+  -d, --dir <dir>                Recordings directory (default: LLM_RECORDINGS_DIR or recordings/)
+      --match <strict|fuzzy>     How requests are matched to the recording (default: strict)
+      --live                     Call the configured provider instead of the recording
+  -p, --prompt <id>              Prompt template (default: PROMPT_TEMPLATE or main)
+  -v, --prompt-version <version> Template version (default: latest)
+  -h, --help                     Show this help`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string', short: 'd' },
+      match: { type: 'string' },
+      live: { type: 'boolean' },
+      prompt: { type: 'string', short: 'p' },
+      'prompt-version': { type: 'string', short: 'v' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const match = (values.match ?? 'strict') as ReplayMatchMode;
+  if (match !== 'strict' && match !== 'fuzzy') {
+    throw new Error(`Invalid --match: ${match}`);
+  }
+
+  const requestId = positionals[0];
+  const interactions = await loadRequestRecording(values.dir || getRecordingsDir(), requestId);
+  if (interactions.length === 0) {
+    throw new Error(`No recorded completions for ${requestId}`);
+  }
+
+  // The first call holds the question as the model saw it (PII already redacted) and the replayed history
+  const [first] = interactions;
+  const turns = first.request.messages.filter((message) => message.role !== 'system');
+  const question = turns[turns.length - 1]?.content ?? '';
+  const history = turns.slice(0, -1) as ChatMessage[];
+
+  if (!values.live) {
+    setProvider(createReplayProvider(interactions, { match }));
+  }
+
+  console.error(`🔁 Replaying ${requestId} (${interactions.length} recorded calls, ${first.request.model})...`);
+
+  const result = await processQuery(question, first.request.model, `replay-${requestId}`, {
+    history,
+    bypassCache: true,
+    skipReview: true,
+    promptId: values.prompt,
+    promptVersion: values['prompt-version'],
+  });
+
+  process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+
+  const recordedAnswer = interactions[interactions.length - 1].response.content;
+  console.error(`\n   Outcome: ${result.metrics.outcome}`);
+  console.error(`   Recorded final completion: ${recordedAnswer.slice(0, 200)}`);
+}
+
+main().catch((error) => {
+  console.error('❌ Replay failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
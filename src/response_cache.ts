@@ -0,0 +1,168 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import type { SupportResponse } from './types';
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_MAX_ENTRIES = 500;
+
+export interface CacheKeyParts {
+  query: string;
+  model: string;
+  promptVersion: string;
+}
+
+interface CacheEntry {
+  response: SupportResponse;
+  expires_at: number;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  maxEntries: number;
+  /** Optional JSON file the cache is loaded from and saved to */
+  persistFile?: string;
+}
+
+export interface ResponseCache {
+  get(key: string): Promise<SupportResponse | undefined>;
+  set(key: string, response: SupportResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Normalize a sanitized query so trivially different phrasings share a cache entry
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '')
+    .trim();
+}
+
+/**
+ * Build a cache key from the normalized query, model and prompt-template version
+ */
+export function buildCacheKey(parts: CacheKeyParts): string {
+  return createHash('sha256')
+    .update(JSON.stringify([normalizeQuery(parts.query), parts.model, parts.promptVersion]))
+    .digest('hex');
+}
+
+/**
+ * Create an LRU response cache with a TTL and a size bound, optionally persisted to a JSON file
+ */
+export function createResponseCache(options: ResponseCacheOptions): ResponseCache {
+  const entries = new Map<string, CacheEntry>();
+  let loaded: Promise<void> | undefined;
+  let saveQueue: Promise<void> = Promise.resolve();
+
+  function ensureLoaded(): Promise<void> {
+    if (!loaded) {
+      loaded = (async () => {
+        if (!options.persistFile) {
+          return;
+        }
+
+        try {
+          const data: Record<string, CacheEntry> = JSON.parse(await fs.readFile(options.persistFile, 'utf-8'));
+          for (const [key, entry] of Object.entries(data)) {
+            if (entry.expires_at > Date.now()) {
+              entries.set(key, entry);
+            }
+          }
+        } catch (error) {
+          // File doesn't exist yet, start empty
+        }
+      })();
+    }
+
+    return loaded;
+  }
+
+  function save(): Promise<void> {
+    const { persistFile } = options;
+    if (!persistFile) {
+      return Promise.resolve();
+    }
+
+    saveQueue = saveQueue
+      .then(async () => {
+        await fs.mkdir(path.dirname(persistFile), { recursive: true });
+        await fs.writeFile(persistFile, JSON.stringify(Object.fromEntries(entries)), 'utf-8');
+      })
+      .catch((error) => {
+        console.error('Failed to save response cache:', error);
+      });
+
+    return saveQueue;
+  }
+
+  return {
+    async get(key: string): Promise<SupportResponse | undefined> {
+      await ensureLoaded();
+
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.expires_at <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // Re-insert to mark as most recently used
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.response;
+    },
+
+    async set(key: string, response: SupportResponse): Promise<void> {
+      await ensureLoaded();
+
+      entries.delete(key);
+      entries.set(key, { response, expires_at: Date.now() + options.ttlMs });
+      while (entries.size > options.maxEntries) {
+        const oldestKey = entries.keys().next().value as string;
+        entries.delete(oldestKey);
+      }
+
+      await save();
+    },
+
+    async clear(): Promise<void> {
+      await ensureLoaded();
+      entries.clear();
+      await save();
+    },
+  };
+}
+
+let configuredCache: ResponseCache | null | undefined;
+
+/**
+ * Override the response cache (`null` disables caching; nothing goes back to env-based configuration)
+ */
+export function setResponseCache(cache?: ResponseCache | null): void {
+  configuredCache = cache;
+}
+
+/**
+ * Get the response cache configured by RESPONSE_CACHE_TTL_SECONDS (0 disables it),
+ * RESPONSE_CACHE_MAX_ENTRIES and RESPONSE_CACHE_FILE
+ */
+export function getResponseCache(): ResponseCache | null {
+  if (configuredCache === undefined) {
+    const ttlSeconds = Number.parseInt(process.env.RESPONSE_CACHE_TTL_SECONDS ?? `${DEFAULT_TTL_SECONDS}`, 10);
+    configuredCache = ttlSeconds > 0
+      ? createResponseCache({
+          ttlMs: ttlSeconds * 1000,
+          maxEntries: Number.parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES ?? `${DEFAULT_MAX_ENTRIES}`, 10),
+          persistFile: process.env.RESPONSE_CACHE_FILE || undefined,
+        })
+      : null;
+  }
+
+  return configuredCache;
+}
@@ -0,0 +1,175 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { fileURLToPath } from 'url';
+import { getPiiPolicy, maskPii, sanitizeQuery } from '../safety';
+import type { QueryResult, ReviewItem, ReviewStatus, SupportResponse } from '../types';
+import { getReviewRules, matchesReviewRule } from './rules';
+import { createFileReviewStore, createInMemoryReviewStore, type ReviewStore } from './store';
+
+export * from './rules';
+export * from './store';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_REVIEW_QUEUE_DIR = path.join(__dirname, '..', '..', 'review-queue');
+
+export const REVIEW_STATUSES: readonly ReviewStatus[] = ['pending', 'claimed', 'approved', 'edited', 'rejected'];
+
+let configuredStore: ReviewStore | undefined;
+
+/**
+ * Get the review store, chosen by REVIEW_STORE (`file` by default, under REVIEW_QUEUE_DIR, or `memory`)
+ */
+export function getReviewStore(): ReviewStore {
+  if (!configuredStore) {
+    configuredStore = process.env.REVIEW_STORE === 'memory'
+      ? createInMemoryReviewStore()
+      : createFileReviewStore(process.env.REVIEW_QUEUE_DIR || DEFAULT_REVIEW_QUEUE_DIR);
+  }
+
+  return configuredStore;
+}
+
+/**
+ * Override the review store (pass nothing to go back to env-based selection)
+ */
+export function setReviewStore(store?: ReviewStore): void {
+  configuredStore = store;
+}
+
+/**
+ * Thrown when a review action does not apply to the item's current status or reviewer
+ */
+export class ReviewTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewTransitionError';
+  }
+}
+
+const itemLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run read-modify-write updates of one item one at a time, so two reviewers cannot both claim it
+ */
+async function withItemLock<T>(id: string, update: () => Promise<T>): Promise<T> {
+  const previous = itemLocks.get(id) ?? Promise.resolve();
+  const next = previous.then(update, update);
+  const settled = next.catch(() => undefined);
+  itemLocks.set(id, settled);
+
+  try {
+    return await next;
+  } finally {
+    if (itemLocks.get(id) === settled) {
+      itemLocks.delete(id);
+    }
+  }
+}
+
+/**
+ * Route a successful answer to the review queue when a review rule matches it, returning the result with its
+ * `review` reference. Other results are returned unchanged. The question is stored the way it is logged, with PII
+ * masked per PII_LOG_POLICY.
+ */
+export async function submitForReview(
+  result: QueryResult,
+  question: string,
+  requestId?: string
+): Promise<QueryResult> {
+  if (result.metrics.outcome !== 'ok') {
+    return result;
+  }
+
+  const reasons = getReviewRules()
+    .filter((rule) => matchesReviewRule(rule, result))
+    .map((rule) => rule.id);
+  if (reasons.length === 0) {
+    return result;
+  }
+
+  const { logs, entities } = getPiiPolicy();
+  const sanitizedQuestion = sanitizeQuery(question);
+  const now = new Date().toISOString();
+  const item: ReviewItem = {
+    id: randomUUID(),
+    status: 'pending',
+    created_at: now,
+    updated_at: now,
+    request_id: requestId,
+    conversation_id: result.metrics.conversation_id,
+    model: result.answering_model ?? result.metrics.model,
+    question: logs === 'mask' ? maskPii(sanitizedQuestion, entities) : sanitizedQuestion,
+    response: result.response,
+    safety: result.safety,
+    output_safety: result.output_safety,
+    reasons,
+  };
+  await getReviewStore().save(item);
+
+  return { ...result, review: { item_id: item.id, reasons } };
+}
+
+export async function listReviewItems(status?: ReviewStatus): Promise<ReviewItem[]> {
+  const items = await getReviewStore().list();
+  return status ? items.filter((item) => item.status === status) : items;
+}
+
+async function updateReviewItem(id: string, update: (item: ReviewItem) => void): Promise<ReviewItem | undefined> {
+  return withItemLock(id, async () => {
+    const item = await getReviewStore().get(id);
+    if (!item) {
+      return undefined;
+    }
+
+    update(item);
+    item.updated_at = new Date().toISOString();
+    await getReviewStore().save(item);
+    return item;
+  });
+}
+
+/**
+ * Assign a pending item to a reviewer. Returns undefined for unknown ids.
+ */
+export function claimReviewItem(id: string, reviewer: string): Promise<ReviewItem | undefined> {
+  return updateReviewItem(id, (item) => {
+    if (item.status !== 'pending') {
+      throw new ReviewTransitionError(`Review item is ${item.status}${item.reviewer ? ` by ${item.reviewer}` : ''}`);
+    }
+
+    item.status = 'claimed';
+    item.reviewer = reviewer;
+    item.claimed_at = new Date().toISOString();
+  });
+}
+
+export type ReviewDecision =
+  | { status: 'approved' | 'rejected'; reviewer: string; note?: string }
+  | { status: 'edited'; reviewer: string; response: SupportResponse; note?: string };
+
+/**
+ * Approve, edit or reject a pending item, or one claimed by the same reviewer. Edits keep the original `response`
+ * next to the reviewer's `edited_response`. Returns undefined for unknown ids.
+ */
+export function resolveReviewItem(id: string, decision: ReviewDecision): Promise<ReviewItem | undefined> {
+  return updateReviewItem(id, (item) => {
+    if (item.status !== 'pending' && item.status !== 'claimed') {
+      throw new ReviewTransitionError(`Review item is already ${item.status}`);
+    }
+    if (item.status === 'claimed' && item.reviewer !== decision.reviewer) {
+      throw new ReviewTransitionError(`Review item is claimed by ${item.reviewer}`);
+    }
+
+    item.status = decision.status;
+    item.reviewer = decision.reviewer;
+    item.resolved_at = new Date().toISOString();
+    if (decision.note !== undefined) {
+      item.note = decision.note;
+    }
+    if (decision.status === 'edited') {
+      item.edited_response = decision.response;
+    }
+  });
+}
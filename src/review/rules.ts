@@ -0,0 +1,119 @@
+import path from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { RiskLevel, SUPPORT_CATEGORIES, type SupportCategory } from '../constants';
+import type { SafetyCheck, SupportResponse } from '../types';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_REVIEW_RULES_FILE = path.join(__dirname, '..', '..', 'config', 'review-rules.json');
+
+/**
+ * Routes an answer to human review when every condition it sets matches
+ */
+export interface ReviewRule {
+  id: string;
+  /** Answer confidence strictly below this */
+  confidence_below?: number;
+  /** Answer category is one of these */
+  categories?: SupportCategory[];
+  /** Answer has at least one of these tags */
+  tags?: string[];
+  /** Input safety risk level is one of these */
+  risk_levels?: RiskLevel[];
+  /** The input or output safety check triggered one of these rule ids (a trailing `*` matches a prefix) */
+  triggered_rules?: string[];
+}
+
+export interface ReviewSubject {
+  response: SupportResponse;
+  safety: SafetyCheck;
+  output_safety?: SafetyCheck;
+}
+
+function validateReviewRule(rule: ReviewRule, filePath: string): void {
+  if (!rule.id) {
+    throw new Error(`Each review rule needs an "id": ${filePath}`);
+  }
+  if (rule.confidence_below !== undefined && typeof rule.confidence_below !== 'number') {
+    throw new Error(`Review rule "${rule.id}" needs a numeric "confidence_below": ${filePath}`);
+  }
+  for (const category of rule.categories ?? []) {
+    if (!SUPPORT_CATEGORIES.includes(category)) {
+      throw new Error(`Review rule "${rule.id}" has an unknown category "${category}": ${filePath}`);
+    }
+  }
+  for (const riskLevel of rule.risk_levels ?? []) {
+    if (!Object.values(RiskLevel).includes(riskLevel)) {
+      throw new Error(`Review rule "${rule.id}" has an unknown risk level "${riskLevel}": ${filePath}`);
+    }
+  }
+}
+
+/**
+ * Load review rules from a JSON file (`{ "rules": [ReviewRule, ...] }`)
+ */
+export function loadReviewRules(filePath: string): ReviewRule[] {
+  const data = JSON.parse(readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(data?.rules)) {
+    throw new Error(`Review rules file must contain a "rules" list: ${filePath}`);
+  }
+
+  const rules = data.rules as ReviewRule[];
+  rules.forEach((rule) => validateReviewRule(rule, filePath));
+  return rules;
+}
+
+function matchesRuleId(ruleId: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => (pattern.endsWith('*') ? ruleId.startsWith(pattern.slice(0, -1)) : pattern === ruleId));
+}
+
+/**
+ * Whether every condition a rule sets holds for the answer; a rule without conditions never matches
+ */
+export function matchesReviewRule(rule: ReviewRule, subject: ReviewSubject): boolean {
+  const conditions: boolean[] = [];
+  const { response, safety, output_safety } = subject;
+
+  if (rule.confidence_below !== undefined) {
+    conditions.push(response.confidence < rule.confidence_below);
+  }
+  if (rule.categories) {
+    conditions.push(rule.categories.includes(response.category));
+  }
+  if (rule.tags) {
+    conditions.push(response.tags.some((tag) => rule.tags?.includes(tag)));
+  }
+  if (rule.risk_levels) {
+    conditions.push(rule.risk_levels.includes(safety.risk_level));
+  }
+  if (rule.triggered_rules) {
+    const triggered = [...safety.triggered_rules, ...(output_safety?.triggered_rules ?? [])];
+    conditions.push(triggered.some((ruleId) => matchesRuleId(ruleId, rule.triggered_rules ?? [])));
+  }
+
+  return conditions.length > 0 && conditions.every(Boolean);
+}
+
+let configuredRules: ReviewRule[] | undefined;
+
+/**
+ * Override the review rules (pass nothing to reload from REVIEW_RULES_FILE)
+ */
+export function setReviewRules(rules?: ReviewRule[]): void {
+  configuredRules = rules;
+}
+
+/**
+ * Get the review rules, loaded once from REVIEW_RULES_FILE (default `config/review-rules.json`). Without the file
+ * no answers are queued.
+ */
+export function getReviewRules(): ReviewRule[] {
+  if (!configuredRules) {
+    const filePath = process.env.REVIEW_RULES_FILE || DEFAULT_REVIEW_RULES_FILE;
+    configuredRules = existsSync(filePath) ? loadReviewRules(filePath) : [];
+  }
+
+  return configuredRules;
+}
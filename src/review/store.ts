@@ -0,0 +1,93 @@
+import path from 'path';
+import { promises as fs } from 'fs';
+import type { ReviewItem } from '../types';
+
+/**
+ * Storage backend for review queue items
+ */
+export interface ReviewStore {
+  /** Add a new item or replace an existing one */
+  save(item: ReviewItem): Promise<void>;
+  get(id: string): Promise<ReviewItem | undefined>;
+  /** Every item, oldest first */
+  list(): Promise<ReviewItem[]>;
+}
+
+function byCreation(a: ReviewItem, b: ReviewItem): number {
+  return a.created_at.localeCompare(b.created_at);
+}
+
+/**
+ * Keep review items in process memory (lost on restart)
+ */
+export function createInMemoryReviewStore(): ReviewStore {
+  const items = new Map<string, ReviewItem>();
+
+  return {
+    async save(item: ReviewItem): Promise<void> {
+      items.set(item.id, structuredClone(item));
+    },
+
+    async get(id: string): Promise<ReviewItem | undefined> {
+      const item = items.get(id);
+      return item && structuredClone(item);
+    },
+
+    async list(): Promise<ReviewItem[]> {
+      return [...items.values()].map((item) => structuredClone(item)).sort(byCreation);
+    },
+  };
+}
+
+/**
+ * Keep each review item in its own JSON file under `directory`
+ */
+export function createFileReviewStore(directory: string): ReviewStore {
+  function itemPath(id: string): string {
+    // Ids are generated UUIDs; reject anything else so a request cannot point outside the directory
+    if (!/^[0-9a-f-]{36}$/i.test(id)) {
+      throw new Error(`Invalid review item id: ${id}`);
+    }
+
+    return path.join(directory, `${id}.json`);
+  }
+
+  async function load(id: string): Promise<ReviewItem | undefined> {
+    try {
+      const data = await fs.readFile(itemPath(id), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      // Unknown id or file doesn't exist
+      return undefined;
+    }
+  }
+
+  return {
+    async save(item: ReviewItem): Promise<void> {
+      await fs.mkdir(directory, { recursive: true });
+      // Write then rename, so a crash never leaves a half-written item behind
+      const temporaryPath = `${itemPath(item.id)}.tmp`;
+      await fs.writeFile(temporaryPath, JSON.stringify(item, null, 2), 'utf-8');
+      await fs.rename(temporaryPath, itemPath(item.id));
+    },
+
+    get: load,
+
+    async list(): Promise<ReviewItem[]> {
+      let names: string[];
+      try {
+        names = await fs.readdir(directory);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      }
+
+      const items = await Promise.all(
+        names.filter((name) => name.endsWith('.json')).map((name) => load(path.basename(name, '.json')))
+      );
+      return items.filter((item): item is ReviewItem => item !== undefined).sort(byCreation);
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { Hono } from 'hono';
+import { stream } from 'hono/streaming';
+import { checkDailyBudget } from '../auth';
+import { DEFAULT_BATCH_CONCURRENCY, MAX_BATCH_CONCURRENCY, parseBatchInput, runBatch, type BatchItem } from '../batch';
+import { getBillingOptions, internalError, invalidRequest } from './helpers';
+
+const MAX_BATCH_ITEMS = Number.parseInt(process.env.BATCH_MAX_ITEMS ?? '1000', 10);
+
+const batch = new Hono();
+
+/**
+ * Accepts a JSON array of items, `{ items, model, concurrency }`, or a JSONL body (`application/x-ndjson`).
+ * Responds with NDJSON: one line per item as it completes, then a final `{ "summary": ... }` line.
+ */
+batch.post('/', async (c) => {
+  try {
+    const requestId = c.get('requestId');
+    const contentType = c.req.header('Content-Type') ?? '';
+    const text = await c.req.text();
+
+    let items: BatchItem[];
+    let model = c.req.query('model');
+    let concurrency = c.req.query('concurrency') ? Number(c.req.query('concurrency')) : undefined;
+    try {
+      if (contentType.includes('application/json') && text.trim().startsWith('{')) {
+        const body = JSON.parse(text);
+        items = parseBatchInput(JSON.stringify(body.items ?? []));
+        model = body.model ?? model;
+        concurrency = body.concurrency ?? concurrency;
+      } else {
+        items = parseBatchInput(text);
+      }
+    } catch (error) {
+      return invalidRequest(c, error instanceof Error ? error.message : 'Invalid batch input');
+    }
+
+    if (items.length === 0) {
+      return invalidRequest(c, 'The batch must contain at least one item.');
+    }
+    if (items.length > MAX_BATCH_ITEMS) {
+      return invalidRequest(c, `The batch must contain at most ${MAX_BATCH_ITEMS} items.`);
+    }
+    if (items.some((item) => item.question.trim().length === 0)) {
+      return invalidRequest(c, 'Every item needs a non-empty "question".');
+    }
+    if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY)) {
+      return invalidRequest(c, `Invalid "concurrency". It must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}.`);
+    }
+
+    const modelToUse = model || String(process.env.DEFAULT_MODEL);
+    const queryOptions = getBillingOptions(c);
+    const apiKey = c.get('apiKey');
+    // The batch counts once against the key's rate limit, when the auth middleware admitted it; every item
+    // still spends money, so each is checked against the daily budget
+    const admitItem = apiKey
+      ? async (_item: BatchItem, index: number) => (index === 0 ? undefined : (await checkDailyBudget(apiKey))?.message)
+      : undefined;
+
+    c.header('Content-Type', 'application/x-ndjson; charset=utf-8');
+    return stream(c, async (output) => {
+      const { summary } = await runBatch(items, {
+        model: modelToUse,
+        concurrency: concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+        requestIdPrefix: requestId,
+        queryOptions,
+        admitItem,
+        onResult: (itemResult) => output.write(`${JSON.stringify(itemResult)}\n`).then(() => undefined),
+      });
+
+      await output.write(`${JSON.stringify({ summary })}\n`);
+    });
+  } catch (error) {
+    return internalError(c, '/completions/batch', error);
+  }
+});
+
+export default batch;
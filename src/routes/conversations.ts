@@ -0,0 +1,89 @@
+import { Hono, type Context } from 'hono';
+import { getConversationStore, processConversationTurn } from '../conversations';
+import {
+  checkPromptSelection,
+  getBillingOptions,
+  internalError,
+  invalidRequest,
+  parseQueryRequestBody,
+  streamQueryResult,
+} from './helpers';
+
+const conversations = new Hono();
+
+conversations.post('/', async (c) => {
+  try {
+    const conversation = await getConversationStore().create();
+
+    return c.json(conversation, 201);
+  } catch (error) {
+    return internalError(c, 'POST /conversations', error);
+  }
+});
+
+conversations.get('/:id', async (c) => {
+  try {
+    const conversation = await getConversationStore().get(c.req.param('id'));
+    if (!conversation) {
+      return conversationNotFound(c);
+    }
+
+    return c.json(conversation, 200);
+  } catch (error) {
+    return internalError(c, 'GET /conversations/:id', error);
+  }
+});
+
+conversations.post('/:id/turns', async (c) => {
+  try {
+    const body = await c.req.json();
+    const requestId = c.get('requestId');
+    const billing = getBillingOptions(c);
+
+    const parsed = parseQueryRequestBody(body);
+    if ('error' in parsed) {
+      return invalidRequest(c, parsed.error);
+    }
+
+    const promptError = await checkPromptSelection(parsed.promptId, parsed.promptVersion);
+    if (promptError) {
+      return invalidRequest(c, promptError);
+    }
+
+    const conversation = await getConversationStore().get(c.req.param('id'));
+    if (!conversation) {
+      return conversationNotFound(c);
+    }
+
+    const options = {
+      ...billing,
+      promptId: parsed.promptId,
+      promptVersion: parsed.promptVersion,
+      maxCostUsd: parsed.maxCostUsd,
+    };
+
+    if (parsed.stream) {
+      return streamQueryResult(c, '/conversations/:id/turns', (onAnswerDelta) =>
+        processConversationTurn(conversation, parsed.question, parsed.model, requestId, { ...options, onAnswerDelta })
+      );
+    }
+
+    const result = await processConversationTurn(conversation, parsed.question, parsed.model, requestId, options);
+
+    return c.json({ conversation_id: conversation.id, ...result }, 200);
+  } catch (error) {
+    return internalError(c, 'POST /conversations/:id/turns', error);
+  }
+});
+
+function conversationNotFound(c: Context): Response {
+  return c.json(
+    {
+      error: 'Not Found',
+      message: 'Conversation not found',
+    },
+    404
+  );
+}
+
+export default conversations;
@@ -0,0 +1,50 @@
+import { Hono } from 'hono';
+import { buildExperimentReport, getExperiments } from '../experiments';
+import { queryMetrics, type MetricsFilter } from '../metrics_query';
+import { internalError, invalidRequest } from './helpers';
+
+const experiments = new Hono();
+
+experiments.get('/', async (c) => {
+  try {
+    return c.json({ experiments: await getExperiments() }, 200);
+  } catch (error) {
+    return internalError(c, 'GET /experiments', error);
+  }
+});
+
+/**
+ * Per-variant comparison of confidence, latency, cost and error rate (optional `from`/`to` ISO dates)
+ */
+experiments.get('/:id/report', async (c) => {
+  try {
+    const experiment = (await getExperiments()).find((candidate) => candidate.id === c.req.param('id'));
+    if (!experiment) {
+      return c.json(
+        {
+          error: 'Not Found',
+          message: 'Experiment not found',
+        },
+        404
+      );
+    }
+
+    const filter: MetricsFilter = { experiment_id: experiment.id };
+    for (const key of ['from', 'to'] as const) {
+      const value = c.req.query(key);
+      if (value) {
+        const date = new Date(value);
+        if (Number.isNaN(date.getTime())) {
+          return invalidRequest(c, `Invalid "${key}" parameter. It must be an ISO 8601 date or timestamp.`);
+        }
+        filter[key] = date;
+      }
+    }
+
+    return c.json(buildExperimentReport(experiment, await queryMetrics(filter)), 200);
+  } catch (error) {
+    return internalError(c, 'GET /experiments/:id/report', error);
+  }
+});
+
+export default experiments;
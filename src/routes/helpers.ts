@@ -0,0 +1,183 @@
+import type { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { selectExperimentVariant } from '../experiments';
+import { getDefaultPromptId, getPromptRegistry } from '../prompt_registry';
+import type { AnswerDeltaHandler, ProcessQueryOptions } from '../run_query';
+import type { QueryResult } from '../types';
+
+export interface QueryRequestBody {
+  question: string;
+  model: string;
+  stream: boolean;
+  bypassCache: boolean;
+  promptId?: string;
+  promptVersion?: string;
+  maxCostUsd?: number;
+}
+
+/**
+ * Validate the `question`/`model`/`stream`/`cache`/`prompt_id`/`prompt_version`/`max_cost_usd` fields shared by
+ * query endpoints.
+ * Returns the parsed fields, or an error message suitable for a 400 response.
+ */
+export function parseQueryRequestBody(body: Record<string, unknown>): QueryRequestBody | { error: string } {
+  const { question, model, stream, cache, prompt_id, prompt_version, max_cost_usd } = body;
+
+  if (!question || typeof question !== 'string' || question.trim().length === 0) {
+    return { error: 'Missing or invalid "question" field. It must be a string.' };
+  }
+
+  const modelToUse = model || String(process.env.DEFAULT_MODEL);
+  if (typeof modelToUse !== 'string' || modelToUse.trim().length === 0) {
+    return { error: 'Missing or invalid "model" field. It must be a string.' };
+  }
+
+  if (prompt_id !== undefined && (typeof prompt_id !== 'string' || prompt_id.trim().length === 0)) {
+    return { error: 'Invalid "prompt_id" field. It must be a string.' };
+  }
+
+  if (prompt_version !== undefined && typeof prompt_version !== 'string' && typeof prompt_version !== 'number') {
+    return { error: 'Invalid "prompt_version" field. It must be a string or number.' };
+  }
+
+  if (max_cost_usd !== undefined && (typeof max_cost_usd !== 'number' || !(max_cost_usd > 0))) {
+    return { error: 'Invalid "max_cost_usd" field. It must be a positive number.' };
+  }
+
+  return {
+    question,
+    model: modelToUse,
+    stream: stream === true,
+    bypassCache: cache === false,
+    promptId: prompt_id,
+    promptVersion: prompt_version === undefined ? undefined : String(prompt_version),
+    maxCostUsd: max_cost_usd,
+  };
+}
+
+/**
+ * Check that a requested prompt template exists, returning an error message suitable for a 400 response
+ */
+export async function checkPromptSelection(promptId?: string, promptVersion?: string): Promise<string | undefined> {
+  if (!promptId && !promptVersion) {
+    return undefined;
+  }
+
+  const registry = await getPromptRegistry();
+  const id = promptId || getDefaultPromptId();
+  if (!registry.get(id, promptVersion)) {
+    return `Unknown prompt template "${promptVersion ? `${id}@${promptVersion}` : id}".`;
+  }
+
+  return undefined;
+}
+
+export type QuerySettings = { model: string } & Pick<
+  ProcessQueryOptions,
+  'promptId' | 'promptVersion' | 'temperature' | 'experimentId' | 'experimentVariant' | 'maxCostUsd'
+>;
+
+/**
+ * Assign the request to the running A/B experiment (if any) and apply its variant's model, prompt and temperature.
+ * Callers are identified by the `X-Caller-Id` header or a `caller_id` body field; `"experiment": false` opts out.
+ */
+export async function applyExperiment(
+  c: Context,
+  body: Record<string, unknown>,
+  parsed: QueryRequestBody
+): Promise<QuerySettings> {
+  const settings: QuerySettings = {
+    model: parsed.model,
+    promptId: parsed.promptId,
+    promptVersion: parsed.promptVersion,
+    maxCostUsd: parsed.maxCostUsd,
+  };
+  if (body.experiment === false) {
+    return settings;
+  }
+
+  const callerId = c.req.header('X-Caller-Id') || (typeof body.caller_id === 'string' ? body.caller_id : undefined);
+  const selected = await selectExperimentVariant(callerId);
+  if (!selected) {
+    return settings;
+  }
+
+  const { experiment, variant } = selected;
+
+  return {
+    ...settings,
+    model: variant.model ?? settings.model,
+    promptId: variant.prompt_id ?? settings.promptId,
+    promptVersion: variant.prompt_id ? variant.prompt_version : settings.promptVersion,
+    temperature: variant.temperature,
+    experimentId: experiment.id,
+    experimentVariant: variant.name,
+  };
+}
+
+/**
+ * Attribute a query to the API key that authenticated the request (if any)
+ */
+export function getBillingOptions(c: Context): Pick<ProcessQueryOptions, 'apiKeyId' | 'team'> {
+  const apiKey = c.get('apiKey');
+
+  return { apiKeyId: apiKey?.id, team: apiKey?.team };
+}
+
+/**
+ * Respond with a 400 Invalid request error
+ */
+export function invalidRequest(c: Context, message: string): Response {
+  return c.json(
+    {
+      error: 'Invalid request',
+      message,
+    },
+    400
+  );
+}
+
+/**
+ * Stream a query over Server-Sent Events: `answer.delta` events while the answer is generated,
+ * then a `result` event with the full QueryResult (or an `error` event if the query throws)
+ */
+export function streamQueryResult(
+  c: Context,
+  endpoint: string,
+  run: (onAnswerDelta: AnswerDeltaHandler) => Promise<QueryResult>
+): Response {
+  return streamSSE(
+    c,
+    async (sse) => {
+      const result = await run((delta) =>
+        sse.writeSSE({ event: 'answer.delta', data: JSON.stringify({ text: delta }) })
+      );
+
+      await sse.writeSSE({ event: 'result', data: JSON.stringify(result) });
+    },
+    async (error, sse) => {
+      console.error(`Error in ${endpoint} stream:`, error);
+
+      await sse.writeSSE({
+        event: 'error',
+        data: JSON.stringify({ error: 'Internal server error', message: error.message }),
+      });
+    }
+  );
+}
+
+/**
+ * Respond with a 500 Internal server error for an error caught in a route handler
+ */
+export function internalError(c: Context, endpoint: string, error: unknown): Response {
+  console.error(`Error in ${endpoint} endpoint:`, error);
+
+  return c.json(
+    {
+      error: 'Internal server error',
+      message:
+        error instanceof Error ? error.message : 'An unexpected error occurred',
+    },
+    500
+  );
+}
@@ -0,0 +1,107 @@
+import { Hono } from 'hono';
+import {
+  aggregateMetrics,
+  groupMetrics,
+  METRICS_GROUP_BY,
+  queryMetrics,
+  type MetricsFilter,
+  type MetricsGroupBy,
+} from '../metrics_query';
+import { PROMETHEUS_CONTENT_TYPE, renderPrometheusMetrics } from '../prometheus';
+import { internalError, invalidRequest } from './helpers';
+
+const DEFAULT_ENTRIES_LIMIT = 100;
+
+const metrics = new Hono();
+
+/**
+ * Parse the `from`, `to`, `model`, `request_id`, `api_key_id`, `team` and `experiment_id` query parameters shared by metrics routes
+ */
+function parseMetricsFilter(query: Record<string, string>): MetricsFilter | { error: string } {
+  const filter: MetricsFilter = {
+    model: query.model || undefined,
+    request_id: query.request_id || undefined,
+    api_key_id: query.api_key_id || undefined,
+    team: query.team || undefined,
+    experiment_id: query.experiment_id || undefined,
+  };
+
+  for (const key of ['from', 'to'] as const) {
+    if (query[key]) {
+      const date = new Date(query[key]);
+      if (Number.isNaN(date.getTime())) {
+        return { error: `Invalid "${key}" parameter. It must be an ISO 8601 date or timestamp.` };
+      }
+      filter[key] = date;
+    }
+  }
+
+  return filter;
+}
+
+metrics.get('/', async (c) => {
+  try {
+    const query = c.req.query();
+    const filter = parseMetricsFilter(query);
+    if ('error' in filter) {
+      return invalidRequest(c, filter.error);
+    }
+
+    const groupBy = (query.group_by ?? '').split(',').map((value) => value.trim()).filter(Boolean);
+    const invalidGroup = groupBy.find((value) => !METRICS_GROUP_BY.includes(value as MetricsGroupBy));
+    if (invalidGroup) {
+      return invalidRequest(c, `Invalid "group_by" value "${invalidGroup}". Use: ${METRICS_GROUP_BY.join(', ')}.`);
+    }
+
+    const entries = await queryMetrics(filter);
+
+    return c.json(
+      {
+        filter: {
+          from: filter.from?.toISOString(),
+          to: filter.to?.toISOString(),
+          model: filter.model,
+          request_id: filter.request_id,
+          api_key_id: filter.api_key_id,
+          team: filter.team,
+          experiment_id: filter.experiment_id,
+        },
+        summary: aggregateMetrics(entries),
+        ...Object.fromEntries(
+          groupBy.map((value) => [`by_${value}`, groupMetrics(entries, value as MetricsGroupBy)])
+        ),
+      },
+      200
+    );
+  } catch (error) {
+    return internalError(c, 'GET /metrics', error);
+  }
+});
+
+metrics.get('/entries', async (c) => {
+  try {
+    const query = c.req.query();
+    const filter = parseMetricsFilter(query);
+    if ('error' in filter) {
+      return invalidRequest(c, filter.error);
+    }
+
+    const limit = query.limit ? Number.parseInt(query.limit, 10) : DEFAULT_ENTRIES_LIMIT;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      return invalidRequest(c, 'Invalid "limit" parameter. It must be a positive integer.');
+    }
+
+    const entries = await queryMetrics(filter);
+
+    // Most recent entries first
+    return c.json({ total: entries.length, entries: entries.slice(-limit).reverse() }, 200);
+  } catch (error) {
+    return internalError(c, 'GET /metrics/entries', error);
+  }
+});
+
+metrics.get('/prometheus', (c) => {
+  return c.body(renderPrometheusMetrics(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+});
+
+export default metrics;
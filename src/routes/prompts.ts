@@ -0,0 +1,26 @@
+import { Hono } from 'hono';
+import { getDefaultPromptId, getPromptRegistry } from '../prompt_registry';
+import { internalError } from './helpers';
+
+const prompts = new Hono();
+
+/**
+ * List the registered prompt templates (without their content), flagging the latest version of each id
+ */
+prompts.get('/', async (c) => {
+  try {
+    const registry = await getPromptRegistry();
+    const templates = registry
+      .list()
+      .map(({ content: _content, ...template }) => ({
+        ...template,
+        latest: registry.get(template.id)?.version === template.version,
+      }));
+
+    return c.json({ default: getDefaultPromptId(), templates }, 200);
+  } catch (error) {
+    return internalError(c, 'GET /prompts', error);
+  }
+});
+
+export default prompts;
@@ -0,0 +1,181 @@
+import { Hono, type Context } from 'hono';
+import {
+  claimReviewItem,
+  getReviewStore,
+  listReviewItems,
+  resolveReviewItem,
+  REVIEW_STATUSES,
+  ReviewTransitionError,
+  type ReviewDecision,
+} from '../review';
+import { validateResponse } from '../safety';
+import type { ReviewItem, ReviewStatus } from '../types';
+import { internalError, invalidRequest } from './helpers';
+
+const DEFAULT_ITEMS_LIMIT = 100;
+
+const review = new Hono();
+
+/**
+ * List review items, oldest first (`status` filter, `limit` default 100)
+ */
+review.get('/', async (c) => {
+  try {
+    const status = c.req.query('status');
+    if (status && !REVIEW_STATUSES.includes(status as ReviewStatus)) {
+      return invalidRequest(c, `Invalid "status" parameter. It must be one of: ${REVIEW_STATUSES.join(', ')}.`);
+    }
+
+    const limit = Number.parseInt(c.req.query('limit') ?? String(DEFAULT_ITEMS_LIMIT), 10);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return invalidRequest(c, 'Invalid "limit" parameter. It must be a positive integer.');
+    }
+
+    const items = await listReviewItems(status as ReviewStatus | undefined);
+
+    return c.json({ total: items.length, items: items.slice(0, limit) }, 200);
+  } catch (error) {
+    return internalError(c, 'GET /review', error);
+  }
+});
+
+review.get('/:id', async (c) => {
+  try {
+    const item = await getReviewStore().get(c.req.param('id'));
+    if (!item) {
+      return reviewItemNotFound(c);
+    }
+
+    return c.json(item, 200);
+  } catch (error) {
+    return internalError(c, 'GET /review/:id', error);
+  }
+});
+
+/**
+ * The reviewer is the API key that authenticated the request. The `reviewer` body field is only read when API key
+ * authentication is disabled, so a key can't act as another reviewer.
+ */
+function getReviewer(c: Context, body: Record<string, unknown>): string | undefined {
+  const apiKey = c.get('apiKey');
+  if (apiKey) {
+    return apiKey.id;
+  }
+
+  return typeof body.reviewer === 'string' && body.reviewer.trim().length > 0 ? body.reviewer.trim() : undefined;
+}
+
+/**
+ * Read the optional JSON object body, or return undefined when it isn't one
+ */
+async function readBody(c: Context): Promise<Record<string, unknown> | undefined> {
+  const text = await c.req.text();
+  if (!text.trim()) {
+    return {};
+  }
+
+  try {
+    const body = JSON.parse(text);
+    return body !== null && typeof body === 'object' && !Array.isArray(body) ? body : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function invalidBody(c: Context): Response {
+  return invalidRequest(c, 'Invalid request body. It must be a JSON object.');
+}
+
+review.post('/:id/claim', async (c) => {
+  try {
+    const body = await readBody(c);
+    if (!body) {
+      return invalidBody(c);
+    }
+
+    const reviewer = getReviewer(c, body);
+    if (!reviewer) {
+      return invalidRequest(c, 'Missing "reviewer" field. It must be a non-empty string.');
+    }
+
+    return await respondWithItem(c, claimReviewItem(c.req.param('id'), reviewer));
+  } catch (error) {
+    return internalError(c, 'POST /review/:id/claim', error);
+  }
+});
+
+for (const action of ['approve', 'edit', 'reject'] as const) {
+  /**
+   * `{ reviewer?, note? }`; `edit` also takes the corrected `response`, validated like a model response
+   */
+  review.post(`/:id/${action}`, async (c) => {
+    try {
+      const body = await readBody(c);
+      if (!body) {
+        return invalidBody(c);
+      }
+
+      const reviewer = getReviewer(c, body);
+      if (!reviewer) {
+        return invalidRequest(c, 'Missing "reviewer" field. It must be a non-empty string.');
+      }
+      if (body.note !== undefined && typeof body.note !== 'string') {
+        return invalidRequest(c, 'Invalid "note" field. It must be a string.');
+      }
+      const note = body.note as string | undefined;
+
+      let decision: ReviewDecision;
+      if (action === 'edit') {
+        try {
+          validateResponse(body.response);
+        } catch (error) {
+          return invalidRequest(c, `Invalid "response" field: ${error instanceof Error ? error.message : error}`);
+        }
+        decision = { status: 'edited', reviewer, note, response: body.response };
+      } else {
+        decision = { status: action === 'approve' ? 'approved' : 'rejected', reviewer, note };
+      }
+
+      return await respondWithItem(c, resolveReviewItem(c.req.param('id'), decision));
+    } catch (error) {
+      return internalError(c, `POST /review/:id/${action}`, error);
+    }
+  });
+}
+
+/**
+ * Respond with the updated item, a 404 for unknown ids or a 409 when the action doesn't apply to the item
+ */
+async function respondWithItem(c: Context, update: Promise<ReviewItem | undefined>): Promise<Response> {
+  try {
+    const item = await update;
+    if (!item) {
+      return reviewItemNotFound(c);
+    }
+
+    return c.json(item, 200);
+  } catch (error) {
+    if (error instanceof ReviewTransitionError) {
+      return c.json(
+        {
+          error: 'Conflict',
+          message: error.message,
+        },
+        409
+      );
+    }
+    throw error;
+  }
+}
+
+function reviewItemNotFound(c: Context): Response {
+  return c.json(
+    {
+      error: 'Not Found',
+      message: 'Review item not found',
+    },
+    404
+  );
+}
+
+export default review;
@@ -0,0 +1,189 @@
+import { RiskLevel, type SupportCategory } from './constants';
+import { calculateCost, estimateTokens, getModelPricing } from './metrics';
+import { submitForReview } from './review';
+import { processQuery, type ProcessQueryOptions } from './run_query';
+import { checkInputSafety } from './safety';
+import type { QueryResult, RoutingDecision } from './types';
+
+/**
+ * `model` value that lets the router pick the model
+ */
+export const AUTO_MODEL = 'auto';
+
+const DEFAULT_ROUTING_MODELS = ['gpt-3.5-turbo', 'gpt-4-turbo'];
+
+/**
+ * Tokens added to every query by the system prompt, and a typical answer length, for cost estimates
+ */
+const ESTIMATED_PROMPT_OVERHEAD_TOKENS = 1000;
+const ESTIMATED_COMPLETION_TOKENS = 250;
+
+/**
+ * Categories whose answers involve money or troubleshooting and start on a stronger model
+ */
+const COMPLEX_CATEGORIES: readonly SupportCategory[] = ['billing', 'refund', 'technical'];
+
+const CATEGORY_KEYWORDS: Array<[SupportCategory, RegExp]> = [
+  ['refund', /\b(refunds?|refunded|money back|reimburse\w*|chargeback)\b/i],
+  ['billing', /\b(bill\w*|invoices?|charged?|charges|payments?|pay|subscription|pricing|credit card)\b/i],
+  ['shipping', /\b(ship\w*|deliver\w*|tracking|track|package|parcel|courier)\b/i],
+  ['account', /\b(account|password|log ?in|sign ?in|username|email address|2fa|two-factor)\b/i],
+  ['technical', /\b(errors?|bugs?|crash\w*|not working|broken|fails?|failed|install\w*|api|sync\w*)\b/i],
+  ['product', /\b(features?|products?|plans?|supports?|compatible|available|specs?)\b/i],
+];
+
+/**
+ * Guess the support category of a question from keywords, before the model classifies it
+ */
+export function detectCategory(query: string): SupportCategory {
+  return CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(query))?.[0] ?? 'other';
+}
+
+interface RoutingConfig {
+  /** Candidate models, ordered from cheapest to most expensive */
+  models: string[];
+  /** Queries longer than this (estimated tokens) start one model up */
+  longQueryTokens: number;
+  /** Answers below this confidence are retried one model up */
+  minConfidence: number;
+}
+
+/**
+ * Read the routing configuration from AUTO_ROUTING_MODELS, AUTO_ROUTING_LONG_QUERY_TOKENS and
+ * AUTO_ROUTING_MIN_CONFIDENCE, ordering candidates by their price in the pricing catalog (unpriced models last)
+ */
+function getRoutingConfig(): RoutingConfig {
+  const configured = (process.env.AUTO_ROUTING_MODELS ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter((model) => model && model !== AUTO_MODEL);
+  const models = (configured.length > 0 ? configured : DEFAULT_ROUTING_MODELS)
+    .map((model) => {
+      const pricing = getModelPricing(model);
+      return { model, price: pricing ? pricing.prompt + pricing.completion : Number.POSITIVE_INFINITY };
+    })
+    .sort((a, b) => a.price - b.price)
+    .map(({ model }) => model);
+
+  return {
+    models,
+    longQueryTokens: Number.parseInt(process.env.AUTO_ROUTING_LONG_QUERY_TOKENS ?? '150', 10),
+    minConfidence: Number.parseFloat(process.env.AUTO_ROUTING_MIN_CONFIDENCE ?? '0.6'),
+  };
+}
+
+function estimateQueryCost(model: string, queryTokens: number): number {
+  return calculateCost(model, ESTIMATED_PROMPT_OVERHEAD_TOKENS + queryTokens, ESTIMATED_COMPLETION_TOKENS);
+}
+
+/**
+ * Whether a model's estimated cost fits the hint; an unpriced model never fits a hint
+ */
+function fitsBudget(model: string, queryTokens: number, maxCostUsd?: number): boolean {
+  if (maxCostUsd === undefined) {
+    return true;
+  }
+
+  return getModelPricing(model) !== undefined && estimateQueryCost(model, queryTokens) <= maxCostUsd;
+}
+
+/**
+ * Pick a model for a question: start on the cheapest candidate, move one model up for each of a long query,
+ * a complex category and a MEDIUM risk level, then step back down until the estimate fits `maxCostUsd`
+ */
+export function routeQuery(question: string, maxCostUsd?: number): RoutingDecision {
+  const { models, longQueryTokens } = getRoutingConfig();
+  const queryTokens = estimateTokens(question);
+  const category = detectCategory(question);
+  const riskLevel = checkInputSafety(question).risk_level;
+
+  const reasons: string[] = [];
+  if (queryTokens > longQueryTokens) {
+    reasons.push('long_query');
+  }
+  if (COMPLEX_CATEGORIES.includes(category)) {
+    reasons.push(`category:${category}`);
+  }
+  if (riskLevel === RiskLevel.MEDIUM) {
+    reasons.push('risk:medium');
+  }
+
+  let tier = Math.min(reasons.length, models.length - 1);
+  while (tier > 0 && !fitsBudget(models[tier], queryTokens, maxCostUsd)) {
+    tier--;
+    if (!reasons.includes('max_cost')) {
+      reasons.push('max_cost');
+    }
+  }
+
+  return {
+    model: models[tier],
+    reasons: reasons.length > 0 ? reasons : ['default'],
+    query_tokens: queryTokens,
+    category,
+    risk_level: riskLevel,
+    estimated_cost_usd: estimateQueryCost(models[tier], queryTokens),
+    max_cost_usd: maxCostUsd,
+  };
+}
+
+/**
+ * The next stronger candidate that still fits the cost hint, if any
+ */
+function getEscalationModel(decision: RoutingDecision): string | undefined {
+  const { models } = getRoutingConfig();
+  const next = models[models.indexOf(decision.model) + 1];
+  if (!next || !fitsBudget(next, decision.query_tokens, decision.max_cost_usd)) {
+    return undefined;
+  }
+
+  return next;
+}
+
+/**
+ * Answer a `model: "auto"` query on the routed model, escalating once to the next stronger model when the model's
+ * own confidence is below AUTO_ROUTING_MIN_CONFIDENCE; confidence capped afterwards by the output guard or the
+ * grounding check doesn't escalate. Both queries are logged; the escalated one records where it came from.
+ * Streamed queries are not escalated, since the first answer has already been sent. Only the final answer goes
+ * through review routing.
+ */
+export async function processRoutedQuery(
+  question: string,
+  requestId?: string,
+  options: ProcessQueryOptions = {}
+): Promise<QueryResult> {
+  const result = await answerRoutedQuery(question, requestId, { ...options, skipReview: true });
+
+  return options.skipReview ? result : submitForReview(result, question, requestId);
+}
+
+async function answerRoutedQuery(
+  question: string,
+  requestId: string | undefined,
+  options: ProcessQueryOptions
+): Promise<QueryResult> {
+  const decision = routeQuery(question, options.maxCostUsd);
+  const result = await processQuery(question, decision.model, requestId, { ...options, routing: decision });
+
+  const escalationModel = getEscalationModel(decision);
+  const confidence = result.model_confidence ?? result.response.confidence;
+  if (
+    !escalationModel ||
+    options.onAnswerDelta ||
+    result.metrics.outcome !== 'ok' ||
+    confidence >= getRoutingConfig().minConfidence
+  ) {
+    return result;
+  }
+
+  return processQuery(question, escalationModel, requestId, {
+    ...options,
+    routing: {
+      ...decision,
+      model: escalationModel,
+      estimated_cost_usd: estimateQueryCost(escalationModel, decision.query_tokens),
+      escalated_from: decision.model,
+      initial_confidence: confidence,
+    },
+  });
+}
@@ -1,64 +1,441 @@
-import path from 'path';
-import OpenAI from 'openai';
-import { promises as fs } from 'fs';
-import { fileURLToPath } from 'url';
-import { RiskLevel } from './constants';
+import { createHash } from 'crypto';
+import { RiskLevel, SUPPORT_CATEGORIES } from './constants';
 import { logQueryData } from './logging';
-import { calculateCost } from './metrics';
-import type { QueryMetrics, QueryResult } from './types';
-import { checkInputSafety, parseJSONResponse, sanitizeQuery, validateResponse } from './safety';
-
-function createOpenAIClient(): OpenAI {
-  const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-  const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-  if (!OPENROUTER_API_KEY && !OPENAI_API_KEY) {
-    throw new Error('Either OPENROUTER_API_KEY or OPENAI_API_KEY must be set');
+import {
+  applyGrounding,
+  checkGrounding,
+  getGroundingConfig,
+  judgeGrounding,
+  retrieveKnowledge,
+  type GroundingCheck,
+  type RetrievedPassage,
+} from './knowledge';
+import { calculateCost, getModelPricing } from './metrics';
+import { resolvePromptTemplate, type PromptTemplate } from './prompt_registry';
+import {
+  callWithFallback,
+  getProvider,
+  getRetryPolicy,
+  ModelFallbackError,
+  type ChatMessage,
+  type CompletionRequest,
+  type ResponseFormat,
+} from './providers';
+import { buildCacheKey, getResponseCache } from './response_cache';
+import { submitForReview } from './review';
+import { AUTO_MODEL, processRoutedQuery } from './routing';
+import {
+  formatToolResult,
+  getToolRegistry,
+  getToolsConfig,
+  runToolCall,
+  toToolDefinitions,
+  type ToolCallRecord,
+} from './tools';
+import type { ModelAttempt, QueryMetrics, QueryResult, RoutingDecision, SafetyCheck, SupportResponse } from './types';
+import {
+  checkInputSafety,
+  checkOutputSafety,
+  countPii,
+  createPiiTokenizer,
+  detectPii,
+  extractPartialAnswer,
+  getPiiPolicy,
+  maskPii,
+  parseJSONResponse,
+  repairJSONResponse,
+  sanitizeQuery,
+  SUPPORT_RESPONSE_SCHEMA,
+  toJSONSchema,
+  validateResponse,
+  type OutputGuardContext,
+} from './safety';
+
+/**
+ * How many times the model is re-prompted after returning an invalid response
+ */
+const MAX_REPAIR_ATTEMPTS = Number.parseInt(process.env.MAX_REPAIR_ATTEMPTS ?? '2', 10);
+
+/**
+ * Sampling temperature for templates that don't set one
+ */
+const DEFAULT_TEMPERATURE = 0.3;
+
+/**
+ * Receives each new fragment of the `answer` text while a completion is streamed
+ */
+export type AnswerDeltaHandler = (delta: string) => void | Promise<void>;
+
+export interface ProcessQueryOptions {
+  /** Stream the completion, forwarding the partial answer text as it is generated */
+  onAnswerDelta?: AnswerDeltaHandler;
+  /** Prior conversation turns, replayed between the system prompt and the question */
+  history?: ChatMessage[];
+  /** Conversation the query belongs to, recorded in the logs */
+  conversationId?: string;
+  /** API key (and its team) the query is billed to, recorded in the logs */
+  apiKeyId?: string;
+  team?: string;
+  /** Skip the response cache lookup (a fresh answer still refreshes the cache) */
+  bypassCache?: boolean;
+  /** Prompt template to use (default PROMPT_TEMPLATE or `main`), at an exact version or the latest */
+  promptId?: string;
+  promptVersion?: string;
+  /** Sampling temperature, overriding the template's */
+  temperature?: number;
+  /** A/B experiment and variant the request was assigned to, recorded in metrics */
+  experimentId?: string;
+  experimentVariant?: string;
+  /** Cost hint in USD for `model: "auto"` routing */
+  maxCostUsd?: number;
+  /** Routing decision behind the model, recorded in metrics */
+  routing?: RoutingDecision;
+  /** Leave review queue routing to the caller, e.g. when the result may still be replaced by an escalation */
+  skipReview?: boolean;
+}
+
+/**
+ * Fill in the schema placeholders so the prompt always describes the schema the validator enforces
+ */
+function renderPromptTemplate(template: string): string {
+  return template
+    .replaceAll('{{RESPONSE_SCHEMA}}', JSON.stringify(toJSONSchema(SUPPORT_RESPONSE_SCHEMA), null, 2))
+    .replaceAll('{{CATEGORIES}}', SUPPORT_CATEGORIES.join(', '));
+}
+
+/**
+ * Response format for the completion request. With STRUCTURED_OUTPUTS=true the response schema is sent
+ * as an OpenAI `json_schema` structured output; otherwise plain JSON mode is used.
+ */
+function getResponseFormat(): ResponseFormat {
+  if (process.env.STRUCTURED_OUTPUTS !== 'true') {
+    return { type: 'json_object' };
   }
 
-  return new OpenAI({
-    apiKey: OPENROUTER_API_KEY || OPENAI_API_KEY,
-    baseURL: OPENROUTER_API_KEY ? 'https://openrouter.ai/api/v1' : undefined,
-    defaultHeaders: OPENROUTER_API_KEY
-      ? {
-          'HTTP-Referer': process.env.OPENROUTER_REFERER_URL,
-          'X-Title': process.env.OPENROUTER_APP_NAME,
-        }
-      : undefined,
-  });
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: 'support_response',
+      schema: toJSONSchema(SUPPORT_RESPONSE_SCHEMA, { strict: true }),
+      strict: true,
+    },
+  };
 }
 
-async function loadPromptTemplate(): Promise<string> {
+/**
+ * Load a template from the prompt registry and render its placeholders
+ */
+async function loadPromptTemplate(id?: string, version?: string): Promise<{ template: PromptTemplate; systemPrompt: string }> {
   try {
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = path.dirname(__filename);
-    const promptPath = path.join(__dirname, '..', 'prompts', 'main_prompt.md');
+    const template = await resolvePromptTemplate(id, version);
 
-    const content = await fs.readFile(promptPath, 'utf-8');
-  
-    return content.trim();
+    return { template, systemPrompt: renderPromptTemplate(template.content).trim() };
   } catch (error) {
     console.error('Error loading prompt template:', error);
     throw error;
   }
 }
 
-export async function processQuery(question: string, model: string, requestId?: string): Promise<QueryResult> {
+/**
+ * Parse and validate a model response, falling back to local repairs when the raw output is invalid.
+ * Throws the original error when the response cannot be repaired locally.
+ */
+function parseAndValidateResponse(content: string): SupportResponse {
+  try {
+    const response = parseJSONResponse(content);
+    validateResponse(response);
+    return response;
+  } catch (error) {
+    try {
+      return repairJSONResponse(content);
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Build the follow-up message asking the model to correct its previous output
+ */
+function buildRepairPrompt(error: unknown): string {
+  const reason = error instanceof Error ? error.message : String(error);
+
+  return `Your previous response was invalid: ${reason}. Respond again with only valid JSON matching the required schema.`;
+}
+
+/**
+ * Build the system message that hands the retrieved help-center passages to the model
+ */
+function buildKnowledgeMessage(passages: RetrievedPassage[]): string {
+  const quoted = passages.map((passage) => `[${passage.article_id}] ${passage.title}\n${passage.text}`).join('\n\n---\n\n');
+
+  return [
+    'Help-center articles relevant to the question are quoted below, each under its article id in brackets.',
+    'Base policies, times and amounts only on these articles, and list the ids of the articles you relied on in "citations".',
+    'If they do not cover the question, say so instead of guessing.',
+    '',
+    quoted,
+  ].join('\n');
+}
+
+/**
+ * Keep only citations of articles that were actually retrieved, so the model cannot cite an article it never saw
+ */
+function keepRetrievedCitations(response: SupportResponse, passages: RetrievedPassage[]): SupportResponse {
+  const { citations, ...rest } = response;
+  const retrieved = new Set(passages.map((passage) => passage.article_id));
+  const kept = [...new Set(citations ?? [])].filter((articleId) => retrieved.has(articleId));
+
+  return passages.length > 0 ? { ...rest, citations: kept } : rest;
+}
+
+/**
+ * Check the answer against the retrieved passages, with the judge model's second pass when one is configured.
+ * Undefined when retrieval or grounding is off, the output guard replaced the answer, or there is no evidence to
+ * check against: a question the articles don't cover is not evidence that the answer is wrong.
+ */
+async function verifyGrounding(
+  response: SupportResponse,
+  outputSafety: SafetyCheck,
+  passages: RetrievedPassage[] | undefined,
+  requestId?: string
+): Promise<GroundingCheck | undefined> {
+  const config = getGroundingConfig();
+  if (!passages?.length || !config.enabled || !outputSafety.passed) {
+    return undefined;
+  }
+
+  const check = checkGrounding(response, passages, config);
+  return config.judgeModel ? judgeGrounding(check, passages, { ...config, judgeModel: config.judgeModel }, requestId) : check;
+}
+
+/**
+ * Grounding summary recorded in metrics
+ */
+function buildGroundingMetrics(grounding: GroundingCheck | undefined): QueryMetrics['grounding'] {
+  return (
+    grounding && {
+      score: grounding.score,
+      claims: grounding.claims.length,
+      unsupported: grounding.claims.filter((claim) => !claim.supported).length,
+      judge_model: grounding.judge?.model,
+      judge_cost_usd: grounding.judge?.cost_usd,
+    }
+  );
+}
+
+/**
+ * Add the grounding judge's call to a query's tokens and cost, so budgets and cost totals include it
+ */
+function withJudgeUsage<T extends Pick<QueryMetrics, 'tokens_prompt' | 'tokens_completion' | 'total_tokens' | 'estimated_cost_usd'>>(
+  usage: T,
+  grounding: GroundingCheck | undefined
+): T {
+  const judge = grounding?.judge;
+  if (!judge) {
+    return usage;
+  }
+
+  return {
+    ...usage,
+    tokens_prompt: usage.tokens_prompt + judge.tokens_prompt,
+    tokens_completion: usage.tokens_completion + judge.tokens_completion,
+    total_tokens: usage.total_tokens + judge.tokens_prompt + judge.tokens_completion,
+    estimated_cost_usd: usage.estimated_cost_usd + judge.cost_usd,
+  };
+}
+
+/**
+ * Tool calls as recorded in metrics: which tools ran and how they went, without arguments or results
+ */
+function buildToolCallMetrics(toolCalls: ToolCallRecord[]): QueryMetrics['tool_calls'] {
+  return toolCalls.length > 0
+    ? toolCalls.map(({ name, outcome, latency_ms }) => ({ name, outcome, latency_ms }))
+    : undefined;
+}
+
+/**
+ * Successful tool results as passages, so answers built on live lookups count as grounded
+ */
+function toolResultPassages(toolCalls: ToolCallRecord[]): RetrievedPassage[] {
+  return toolCalls
+    .filter((call) => call.outcome === 'ok')
+    .map((call) => ({
+      id: `tool:${call.id}`,
+      article_id: `tool:${call.name}`,
+      title: call.name,
+      text: formatToolResult(call),
+      score: 0,
+    }));
+}
+
+/**
+ * Answer deltas held back until the output guard has seen them
+ */
+interface GuardedAnswerStream {
+  /** Length of the answer text sent so far */
+  readonly emittedLength: number;
+  /** Pass the partial answer generated so far; complete sentences the guard lets through are sent */
+  push(answer: string): Promise<void>;
+  /** Send the rest of the final, already guarded answer if it continues what was sent */
+  finish(answer: string): Promise<void>;
+}
+
+/**
+ * Stream a partial answer a sentence at a time. Before a sentence goes out, the output guard runs over everything
+ * sent so far plus that sentence; once it would block or redact, nothing more is sent and the final result carries
+ * the guarded answer.
+ */
+function createGuardedAnswerStream(
+  onAnswerDelta: AnswerDeltaHandler,
+  getGuardContext: () => OutputGuardContext
+): GuardedAnswerStream {
+  let emitted = '';
+  let withheld = false;
+
+  const send = async (text: string): Promise<void> => {
+    await onAnswerDelta(text.slice(emitted.length));
+    emitted = text;
+  };
+
+  return {
+    get emittedLength() {
+      return emitted.length;
+    },
+
+    async push(answer: string): Promise<void> {
+      // Up to the last `.`, `!` or `?` that another sentence already follows
+      const sentenceEnd = [...answer.matchAll(/[.!?](?=\s)/g)].pop();
+      const complete = sentenceEnd?.index === undefined ? '' : answer.slice(0, sentenceEnd.index + 1);
+      if (withheld || complete.length <= emitted.length || !complete.startsWith(emitted)) {
+        return;
+      }
+
+      const partial: SupportResponse = { answer: complete, confidence: 1, actions: [], category: 'other', tags: [] };
+      if (checkOutputSafety(partial, getGuardContext()).response.answer !== complete) {
+        withheld = true;
+        return;
+      }
+      await send(complete);
+    },
+
+    async finish(answer: string): Promise<void> {
+      if (!withheld && answer.length > emitted.length && answer.startsWith(emitted)) {
+        await send(answer);
+      }
+    },
+  };
+}
+
+/**
+ * Identify a rendered prompt template by id, version, content hash and sampling temperature, so cached answers
+ * are never served across prompt changes (even an edit that forgot to bump the version) or experiment variants
+ */
+function getPromptCacheVersion(template: PromptTemplate, systemPrompt: string, temperature: number): string {
+  const contentHash = createHash('sha256').update(systemPrompt).digest('hex').slice(0, 12);
+
+  return `${template.id}@${template.version}:${contentHash}:t${temperature}`;
+}
+
+/**
+ * Token counts and estimated cost of the upstream calls behind a query. Queries billed to an API key pay the
+ * fallback price for unpriced models, since their cost counts against the key's daily budget.
+ */
+function buildUsageMetrics(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  cachedPromptTokens: number,
+  billed: boolean
+): Pick<QueryMetrics, 'tokens_prompt' | 'tokens_completion' | 'total_tokens' | 'tokens_cached' | 'estimated_cost_usd' | 'unpriced'> {
+  return {
+    tokens_prompt: promptTokens,
+    tokens_completion: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    tokens_cached: cachedPromptTokens > 0 ? cachedPromptTokens : undefined,
+    estimated_cost_usd: calculateCost(model, promptTokens, completionTokens, cachedPromptTokens, { chargeUnpriced: billed }),
+    unpriced: getModelPricing(model) ? undefined : true,
+  };
+}
+
+/**
+ * Run a question through safety checks, the LLM and response validation, logging the outcome.
+ * When `options.onAnswerDelta` is given the completion is streamed and the partial answer is forwarded as it is
+ * generated; the returned result is the same as for the blocking path.
+ */
+export async function processQuery(
+  question: string,
+  model: string,
+  requestId?: string,
+  options: ProcessQueryOptions = {}
+): Promise<QueryResult> {
+  const {
+    onAnswerDelta,
+    history = [],
+    conversationId,
+    apiKeyId,
+    team,
+    bypassCache = false,
+    promptId,
+    promptVersion,
+    temperature,
+    experimentId,
+    experimentVariant,
+    routing,
+    skipReview = false,
+  } = options;
+  if (model === AUTO_MODEL) {
+    return processRoutedQuery(question, requestId, options);
+  }
+
   const startTime = Date.now();
 
-  const safetyCheck = checkInputSafety(question);
+  const buildMetrics = (
+    fields: Omit<
+      QueryMetrics,
+      | 'model'
+      | 'timestamp'
+      | 'latency_ms'
+      | 'request_id'
+      | 'conversation_id'
+      | 'api_key_id'
+      | 'team'
+      | 'experiment_id'
+      | 'experiment_variant'
+      | 'routing'
+    >
+  ): QueryMetrics => ({
+    model,
+    timestamp: new Date().toISOString(),
+    latency_ms: Date.now() - startTime,
+    ...fields,
+    request_id: requestId,
+    conversation_id: conversationId,
+    api_key_id: apiKeyId,
+    team,
+    experiment_id: experimentId,
+    experiment_variant: experimentVariant,
+    routing,
+  });
+
+  const piiPolicy = getPiiPolicy();
+  const piiCounts = countPii(detectPii(question, piiPolicy.entities));
+  const safetyCheck: SafetyCheck = {
+    ...checkInputSafety(question),
+    ...(Object.keys(piiCounts).length > 0 && { pii_redactions: piiCounts }),
+  };
+  const loggedQuestion = piiPolicy.logs === 'mask' ? maskPii(question, piiPolicy.entities) : question;
+
   if (!safetyCheck.passed && safetyCheck.risk_level === RiskLevel.HIGH) {
-    const metrics: QueryMetrics = {
-      model,
-      timestamp: new Date().toISOString(),
-      query: question.substring(0, 100),
+    const metrics = buildMetrics({
+      query: loggedQuestion.substring(0, 100),
       tokens_prompt: 0,
       tokens_completion: 0,
       total_tokens: 0,
-      latency_ms: Date.now() - startTime,
       estimated_cost_usd: 0,
-      request_id: requestId,
-    };
-    await logQueryData(metrics, question, safetyCheck, requestId);
+      outcome: 'blocked',
+    });
+    await logQueryData(metrics, loggedQuestion, safetyCheck, requestId);
 
     return {
       metrics,
@@ -74,68 +451,287 @@ export async function processQuery(question: string, model: string, requestId?:
   }
 
   const sanitizedQuery = sanitizeQuery(question);
+  const loggedQuery = sanitizeQuery(loggedQuestion);
+
+  // PII placeholders are shared by the question and the history, and restored in the answer
+  const piiTokenizer = createPiiTokenizer(piiPolicy.entities);
+  const redactForLlm = (text: string): string => {
+    if (piiPolicy.llm === 'mask') {
+      return maskPii(text, piiPolicy.entities);
+    }
+    return piiPolicy.llm === 'tokenize' ? piiTokenizer.tokenize(text) : text;
+  };
+  const restorePii = (response: SupportResponse): SupportResponse => ({
+    ...response,
+    answer: piiTokenizer.restore(response.answer),
+    actions: response.actions.map(piiTokenizer.restore),
+  });
+  const llmQuery = redactForLlm(sanitizedQuery);
+
+  let attempts = 0;
+  const modelAttempts: ModelAttempt[] = [];
+  const toolCalls: ToolCallRecord[] = [];
+  let answeringModel: string | undefined;
+  let promptTokens = 0;
+  let cachedPromptTokens = 0;
+  let completionTokens = 0;
+
+  let template: PromptTemplate | undefined;
 
   try {
-    const client = createOpenAIClient();
-    const systemPrompt = await loadPromptTemplate();
-    
-    const completionResponse = await client.chat.completions.create({
+    const prompt = await loadPromptTemplate(promptId, promptVersion);
+    template = prompt.template;
+    const { systemPrompt } = prompt;
+    const requestTemperature = temperature ?? template.temperature ?? DEFAULT_TEMPERATURE;
+    // Retrieved with the question as the LLM sees it, so PII never reaches an embedding endpoint
+    const knowledge = await retrieveKnowledge(llmQuery);
+    const passages = knowledge?.passages ?? [];
+    const retrieval: QueryResult['retrieval'] = knowledge && {
+      index_version: knowledge.index_version,
+      passages: passages.map(({ id, article_id, title, score }) => ({ id, article_id, title, score })),
+    };
+    // Articles are trusted input: their links and contact details may be repeated in the answer
+    const guardContext = {
+      systemPrompt,
+      input: [question, ...history.map((message) => message.content), ...passages.map((passage) => passage.text)].join('\n'),
+    };
+
+    // Follow-ups depend on the conversation so far, only standalone questions are cached
+    const cache = history.length === 0 ? getResponseCache() : null;
+    // Keyed and stored as the LLM saw them, so cached answers never hold another customer's PII
+    const cacheKey = buildCacheKey({
+      query: llmQuery,
+      model,
+      promptVersion: [
+        getPromptCacheVersion(template, systemPrompt, requestTemperature),
+        ...(knowledge ? [`kb-${knowledge.index_version}`] : []),
+      ].join(':'),
+    });
+    const cachedEntry = cache && !bypassCache ? await cache.get(cacheKey) : undefined;
+    if (cachedEntry) {
+      const { response: guardedResponse, safety: outputSafety } = checkOutputSafety(restorePii(cachedEntry), guardContext);
+      const grounding = await verifyGrounding(guardedResponse, outputSafety, knowledge?.passages, requestId);
+      const cachedResponse = grounding ? applyGrounding(guardedResponse, grounding) : guardedResponse;
+      if (onAnswerDelta) {
+        await onAnswerDelta(cachedResponse.answer);
+      }
+
+      const metrics = buildMetrics({
+        query: loggedQuery.substring(0, 200),
+        // Nothing was generated, but the grounding judge may still have run
+        ...withJudgeUsage({ tokens_prompt: 0, tokens_completion: 0, total_tokens: 0, estimated_cost_usd: 0 }, grounding),
+        outcome: 'ok',
+        cache_hit: true,
+        prompt_id: template.id,
+        prompt_version: template.version,
+        confidence: cachedResponse.confidence,
+        grounding: buildGroundingMetrics(grounding),
+      });
+      await logQueryData(metrics, loggedQuestion, safetyCheck, requestId, outputSafety);
+
+      const result: QueryResult = {
+        response: cachedResponse,
+        metrics,
+        safety: safetyCheck,
+        output_safety: outputSafety,
+        model_confidence: cachedEntry.confidence,
+        retrieval,
+        grounding,
+      };
+      return skipReview ? result : submitForReview(result, question, requestId);
+    }
+
+    const provider = await getProvider();
+    const toolsConfig = getToolsConfig();
+    const tools = toolsConfig.enabled ? getToolRegistry() : undefined;
+    const request: CompletionRequest = {
       model,
       messages: [
         { role: 'system', content: systemPrompt },
-        { role: 'user', content: sanitizedQuery },
+        ...(passages.length > 0 ? [{ role: 'system' as const, content: buildKnowledgeMessage(passages) }] : []),
+        ...history.map((message) => ({ ...message, content: redactForLlm(message.content) })),
+        { role: 'user', content: llmQuery },
       ],
-      temperature: 0.3,
-      response_format: { type: 'json_object' },
+      temperature: requestTemperature,
+      response_format: getResponseFormat(),
+      ...(tools && tools.size > 0 && { tools: toToolDefinitions(tools), tool_choice: 'auto' as const }),
+    };
+
+    // Requested model first, then the fallbacks; repair prompts stay with the model that answered
+    let models = [model, ...getRetryPolicy().fallbackModels];
+
+    // Tool results are trusted input too: the customer's own order and account details may be repeated
+    const guardContextWithTools = (): OutputGuardContext => ({
+      ...guardContext,
+      input: [guardContext.input, ...toolResultPassages(toolCalls).map((passage) => passage.text)].join('\n'),
     });
-    const responseText = completionResponse.choices[0]?.message?.content || '{}';
-    const latency = Date.now() - startTime;
 
-    const response = parseJSONResponse(responseText);
-    validateResponse(response);
+    let answerStream: GuardedAnswerStream | undefined;
+    let response: SupportResponse | undefined;
+    // Completions that called tools rather than answering; they don't count as repair attempts
+    let toolSteps = 0;
+    while (!response) {
+      attempts++;
+
+      // Only the first answer attempt is streamed; repaired answers arrive with the final result
+      const stream =
+        onAnswerDelta !== undefined && attempts - toolSteps === 1
+          ? createGuardedAnswerStream(onAnswerDelta, guardContextWithTools)
+          : undefined;
+      answerStream = stream ?? answerStream;
+      const call = await callWithFallback(
+        models,
+        (candidate, signal) => {
+          const modelRequest = { ...request, model: candidate };
+          if (!stream) {
+            return provider.complete(modelRequest, { signal, requestId });
+          }
+
+          let streamedContent = '';
+          return provider.stream(modelRequest, async (delta) => {
+            streamedContent += delta;
+            await stream.push(piiTokenizer.restorePartial(extractPartialAnswer(streamedContent)));
+          }, { signal, requestId });
+        },
+        // Once part of the answer reached the client, another model can't take over the stream
+        { canRetry: () => !stream || stream.emittedLength === 0 }
+      ).catch((error: unknown) => {
+        if (error instanceof ModelFallbackError) {
+          modelAttempts.push(...error.attempts);
+        }
+        throw error;
+      });
 
-    const tokens = completionResponse.usage;
-    if (!tokens) {
-      throw new Error('No tokens found in completion response');
+      modelAttempts.push(...call.attempts);
+      answeringModel = call.model;
+      models = models.slice(models.indexOf(call.model));
+      const completion = call.result;
+
+      const tokens = completion.usage;
+      if (!tokens) {
+        throw new Error('No tokens found in completion response');
+      }
+      promptTokens += tokens.prompt_tokens;
+      cachedPromptTokens += tokens.prompt_tokens_details?.cached_tokens ?? 0;
+      completionTokens += tokens.completion_tokens;
+
+      if (completion.tool_calls?.length) {
+        if (!tools || toolSteps >= toolsConfig.maxIterations) {
+          throw new Error(`Model kept calling tools after ${toolSteps} rounds of tool calls`);
+        }
+        toolSteps++;
+
+        // The model sees PII placeholders: handlers get the real values, and results go back redacted
+        const records = await Promise.all(
+          completion.tool_calls.map((call) =>
+            runToolCall(
+              tools,
+              { ...call, function: { ...call.function, arguments: piiTokenizer.restore(call.function.arguments) } },
+              { timeoutMs: toolsConfig.timeoutMs, requestId }
+            )
+          )
+        );
+        toolCalls.push(...records);
+        request.messages.push(
+          { role: 'assistant', content: completion.content, tool_calls: completion.tool_calls },
+          ...records.map((record) => ({
+            role: 'tool' as const,
+            tool_call_id: record.id,
+            content: redactForLlm(formatToolResult(record)),
+          }))
+        );
+        // Out of rounds: the next completion has to answer
+        if (toolSteps >= toolsConfig.maxIterations) {
+          request.tool_choice = 'none';
+        }
+        continue;
+      }
+
+      try {
+        response = keepRetrievedCitations(parseAndValidateResponse(completion.content), passages);
+      } catch (error) {
+        if (attempts - toolSteps > MAX_REPAIR_ATTEMPTS) {
+          throw error;
+        }
+
+        request.messages.push(
+          { role: 'assistant', content: completion.content },
+          { role: 'user', content: buildRepairPrompt(error) }
+        );
+      }
     }
 
-    const metrics: QueryMetrics = {
-      timestamp: new Date().toISOString(),
-      query: sanitizedQuery.substring(0, 200),
-      tokens_prompt: tokens.prompt_tokens,
-      tokens_completion: tokens.completion_tokens,
-      total_tokens: tokens.total_tokens,
-      latency_ms: latency,
-      estimated_cost_usd: calculateCost(model, tokens.prompt_tokens, tokens.completion_tokens),
-      model,
-      request_id: requestId,
-    };
-    await logQueryData(metrics, question, safetyCheck, requestId);
+    // Answers built on live lookups go stale, so only answers without tool calls are cached
+    if (cache && toolCalls.length === 0) {
+      await cache.set(cacheKey, response);
+    }
+    const restoredResponse = restorePii(response);
+    const { response: guardedResponse, safety: outputSafety } = checkOutputSafety(
+      restoredResponse,
+      guardContextWithTools()
+    );
+    if (guardedResponse.answer === restoredResponse.answer) {
+      await answerStream?.finish(guardedResponse.answer);
+    }
+    const grounding = await verifyGrounding(
+      guardedResponse,
+      outputSafety,
+      knowledge && [...knowledge.passages, ...toolResultPassages(toolCalls)],
+      requestId
+    );
+    const finalResponse = grounding ? applyGrounding(guardedResponse, grounding) : guardedResponse;
 
-    return {
-      response,
+    const metrics = buildMetrics({
+      query: loggedQuery.substring(0, 200),
+      ...withJudgeUsage(buildUsageMetrics(answeringModel ?? model, promptTokens, completionTokens, cachedPromptTokens, apiKeyId !== undefined), grounding),
+      outcome: 'ok',
+      provider: provider.name,
+      answering_model: answeringModel,
+      model_attempts: modelAttempts,
+      attempts,
+      cache_hit: false,
+      prompt_id: template.id,
+      prompt_version: template.version,
+      confidence: finalResponse.confidence,
+      grounding: buildGroundingMetrics(grounding),
+      tool_calls: buildToolCallMetrics(toolCalls),
+    });
+    await logQueryData(metrics, loggedQuestion, safetyCheck, requestId, outputSafety);
+
+    const result: QueryResult = {
+      response: finalResponse,
       metrics,
       safety: safetyCheck,
+      output_safety: outputSafety,
+      model_confidence: response.confidence,
+      answering_model: answeringModel,
+      model_attempts: modelAttempts,
+      retrieval,
+      grounding,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
     };
+    return skipReview ? result : submitForReview(result, question, requestId);
   } catch (error) {
-    const metrics: QueryMetrics = {
-      model,
-      timestamp: new Date().toISOString(),
-      query: sanitizedQuery.substring(0, 200),
-      latency_ms: Date.now() - startTime,
-      tokens_prompt: 0,
-      tokens_completion: 0,
-      total_tokens: 0,
-      estimated_cost_usd: 0,
-      request_id: requestId,
-    };
-    await logQueryData(metrics, question, safetyCheck, requestId);
+    const metrics = buildMetrics({
+      query: loggedQuery.substring(0, 200),
+      ...buildUsageMetrics(answeringModel ?? model, promptTokens, completionTokens, cachedPromptTokens, apiKeyId !== undefined),
+      outcome: 'error',
+      answering_model: answeringModel,
+      model_attempts: modelAttempts.length > 0 ? modelAttempts : undefined,
+      attempts,
+      prompt_id: template?.id,
+      prompt_version: template?.version,
+      tool_calls: buildToolCallMetrics(toolCalls),
+    });
+    await logQueryData(metrics, loggedQuestion, safetyCheck, requestId);
 
     console.error('Error processing query:', error);
 
     return {
       metrics,
       safety: safetyCheck,
+      model_attempts: metrics.model_attempts,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
       response: {
         answer: `I encountered an error processing your question: ${error instanceof Error ? error.message : 'Unknown error'}`,
         confidence: 0.0,
@@ -1,2 +1,7 @@
+export * from './output';
+export * from './pii';
+export * from './pipeline';
 export * from './prompt';
 export * from './response';
+export * from './rules';
+export * from './schema';
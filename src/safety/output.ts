@@ -0,0 +1,219 @@
+import { RiskLevel } from '../constants';
+import type { SafetyCheck, SupportResponse } from '../types';
+import { detectPii, getPiiPolicy, maskPii } from './pii';
+import { createSafetyPipeline, getSafetyPipeline, type SafetyRuleMatch } from './pipeline';
+
+/**
+ * What the output guard does about a finding, from most to least severe
+ */
+export type OutputRemediation = 'block' | 'redact' | 'lower_confidence';
+
+export interface OutputGuardContext {
+  /** Rendered system prompt the answer must not leak */
+  systemPrompt: string;
+  /** The customer's question and replayed history; PII and URLs they contain may be repeated back */
+  input: string;
+}
+
+export interface OutputGuardConfig {
+  /** Hosts answers may link to (subdomains included); other URLs are redacted */
+  urlAllowlist: string[];
+  /** Confidence ceiling for answers that make policy-violating promises */
+  confidenceCap: number;
+}
+
+/**
+ * Read the output guard configuration from OUTPUT_URL_ALLOWLIST and OUTPUT_CONFIDENCE_CAP
+ */
+export function getOutputGuardConfig(): OutputGuardConfig {
+  return {
+    urlAllowlist: (process.env.OUTPUT_URL_ALLOWLIST ?? '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean),
+    confidenceCap: Number.parseFloat(process.env.OUTPUT_CONFIDENCE_CAP ?? '0.3'),
+  };
+}
+
+/**
+ * Consecutive words an answer may share with the system prompt before it counts as a leak
+ */
+const LEAK_SHINGLE_WORDS = 10;
+
+/**
+ * Consecutive words an answer sentence must repeat from the input for injection text in it to count as echoed
+ */
+const ECHO_SHINGLE_WORDS = 3;
+
+// Trailing punctuation belongs to the sentence, not the URL
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"')\]]*[^\s<>"')\].,;:!?]/gi;
+
+const POLICY_PATTERNS: Array<[string, RegExp]> = [
+  [
+    'output.refund-promise',
+    /\b(?:(?:will|shall|going to|can)\s+(?:be\s+)?(?:refund(?:ed)?|reimburse(?:d)?|credit(?:ed)?)|refund of|credit of)\b[^.!?]*?(?:[$€£]\s?\d|\d+(?:\.\d+)?\s?(?:usd|eur|gbp|dollars|euros|pounds)\b)/i,
+  ],
+  [
+    'output.legal-advice',
+    /\b(?:you should (?:sue|file a (?:lawsuit|claim))|take legal action against|legally (?:entitled|obligated)|this (?:is|constitutes) legal advice|you have a (?:strong|valid) (?:legal )?case)\b/i,
+  ],
+];
+
+const RULE_REMEDIATIONS: Record<string, OutputRemediation> = {
+  'output.system-prompt-leak': 'block',
+  'output.injection-echo': 'block',
+  'output.new-pii': 'redact',
+  'output.url-not-allowed': 'redact',
+  'output.refund-promise': 'lower_confidence',
+  'output.legal-advice': 'lower_confidence',
+};
+
+const REMEDIATION_RISK: Record<OutputRemediation, Pick<SafetyRuleMatch, 'score' | 'risk_level'>> = {
+  block: { score: 0.95, risk_level: RiskLevel.HIGH },
+  redact: { score: 0.5, risk_level: RiskLevel.MEDIUM },
+  lower_confidence: { score: 0.5, risk_level: RiskLevel.MEDIUM },
+};
+
+function ruleMatch(ruleId: string): SafetyRuleMatch {
+  return { rule_id: ruleId, ...REMEDIATION_RISK[RULE_REMEDIATIONS[ruleId]] };
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9']+/g) ?? [];
+}
+
+function shingles(tokens: string[], size: number): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    result.add(tokens.slice(i, i + size).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Whether the text repeats a run of the system prompt's instructions. Few-shot examples (fenced blocks and
+ * `**Question:**` lines) are left out, since a good answer may legitimately resemble them.
+ */
+function leaksSystemPrompt(text: string, systemPrompt: string): boolean {
+  const instructions = systemPrompt.replace(/```[\s\S]*?```/g, ' ').replace(/^.*\*\*Question:\*\*.*$/gm, ' ');
+  const promptShingles = shingles(words(instructions), LEAK_SHINGLE_WORDS);
+
+  return [...shingles(words(text), LEAK_SHINGLE_WORDS)].some((shingle) => promptShingles.has(shingle));
+}
+
+function injectionRules(text: string): string[] {
+  return getSafetyPipeline().check(text).triggered_rules.filter((ruleId) => ruleId.startsWith('injection.'));
+}
+
+/**
+ * Whether a sentence of the text repeats an injection payload from the input: it triggers an `injection.*` rule
+ * the input also triggered, and shares a run of words with the input. Answers that merely use words like
+ * "new instructions" are left alone.
+ */
+function echoesInjection(text: string, input: string): boolean {
+  const inputRules = new Set(injectionRules(input));
+  if (inputRules.size === 0) {
+    return false;
+  }
+
+  const inputShingles = shingles(words(input), ECHO_SHINGLE_WORDS);
+  return text
+    .split(/(?<=[.!?])\s+|\n/)
+    .some(
+      (sentence) =>
+        injectionRules(sentence).some((ruleId) => inputRules.has(ruleId)) &&
+        [...shingles(words(sentence), ECHO_SHINGLE_WORDS)].some((shingle) => inputShingles.has(shingle))
+    );
+}
+
+function isAllowedUrl(url: string, allowlist: string[]): boolean {
+  let host: string;
+  try {
+    host = new URL(/^www\./i.test(url) ? `https://${url}` : url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  return allowlist.some((allowed) => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+/**
+ * Check a validated response before it reaches the customer: a leaked system prompt or an echoed injection payload
+ * blocks the answer; PII that was not in the input and URLs outside OUTPUT_URL_ALLOWLIST are redacted; refund
+ * amount promises and legal advice cap the confidence at OUTPUT_CONFIDENCE_CAP. Returns the response to serve and
+ * the output SafetyCheck, whose `passed` is false only when the answer was blocked.
+ */
+export function checkOutputSafety(
+  response: SupportResponse,
+  context: OutputGuardContext,
+  config: OutputGuardConfig = getOutputGuardConfig()
+): { response: SupportResponse; safety: SafetyCheck } {
+  const text = [response.answer, ...response.actions].join('\n');
+  const { entities } = getPiiPolicy();
+  const inputPii = new Set(detectPii(context.input, entities).map((match) => match.value));
+  const inputUrls = new Set(context.input.match(URL_PATTERN) ?? []);
+
+  const isNewPii = (value: string): boolean => !inputPii.has(value);
+  const isDisallowedUrl = (url: string): boolean => !inputUrls.has(url) && !isAllowedUrl(url, config.urlAllowlist);
+
+  const findings: SafetyRuleMatch[] = [];
+  if (leaksSystemPrompt(text, context.systemPrompt)) {
+    findings.push(ruleMatch('output.system-prompt-leak'));
+  }
+  if (echoesInjection(text, context.input)) {
+    findings.push(ruleMatch('output.injection-echo'));
+  }
+  if (detectPii(text, entities).some((match) => isNewPii(match.value))) {
+    findings.push(ruleMatch('output.new-pii'));
+  }
+  if ((text.match(URL_PATTERN) ?? []).some(isDisallowedUrl)) {
+    findings.push(ruleMatch('output.url-not-allowed'));
+  }
+  for (const [ruleId, pattern] of POLICY_PATTERNS) {
+    if (pattern.test(text)) {
+      findings.push(ruleMatch(ruleId));
+    }
+  }
+
+  const check = createSafetyPipeline({ detectors: [{ id: 'output', detect: () => findings }] }).check(text);
+  const remediations = [...new Set(findings.map((finding) => RULE_REMEDIATIONS[finding.rule_id]))];
+  const safety: SafetyCheck = {
+    ...check,
+    passed: !remediations.includes('block'),
+    ...(remediations.length > 0 && { remediations }),
+  };
+
+  if (remediations.includes('block')) {
+    return {
+      safety,
+      response: {
+        answer: 'I cannot share that response. Please contact support for assistance.',
+        confidence: 0,
+        actions: ['Contact support'],
+        category: response.category,
+        tags: ['safety', 'moderation'],
+      },
+    };
+  }
+
+  const redact = (value: string): string => {
+    if (!remediations.includes('redact')) {
+      return value;
+    }
+
+    const withoutUrls = value.replace(URL_PATTERN, (url) => (isDisallowedUrl(url) ? '[URL REMOVED]' : url));
+    return maskPii(withoutUrls, entities, (match) => isNewPii(match.value));
+  };
+
+  return {
+    safety,
+    response: {
+      ...response,
+      answer: redact(response.answer),
+      actions: response.actions.map(redact),
+      confidence: remediations.includes('lower_confidence')
+        ? Math.min(response.confidence, config.confidenceCap)
+        : response.confidence,
+    },
+  };
+}
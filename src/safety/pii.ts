@@ -0,0 +1,210 @@
+export const PII_ENTITY_TYPES = ['email', 'iban', 'credit_card', 'phone', 'address'] as const;
+
+export type PiiEntityType = (typeof PII_ENTITY_TYPES)[number];
+
+/**
+ * What happens to PII on its way to a destination: `none` passes it through, `mask` replaces it with its type
+ * (`[EMAIL]`), `tokenize` replaces it with a numbered placeholder (`[EMAIL_1]`) that is restored in the answer
+ */
+export type PiiAction = 'none' | 'mask' | 'tokenize';
+
+export interface PiiPolicy {
+  /** Entity types that are detected */
+  entities: PiiEntityType[];
+  /** Applied to the question and history sent to the LLM */
+  llm: PiiAction;
+  /** Applied to the query text written to the metrics and safety logs */
+  logs: Exclude<PiiAction, 'tokenize'>;
+}
+
+export interface PiiMatch {
+  type: PiiEntityType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type PiiCounts = Partial<Record<PiiEntityType, number>>;
+
+/**
+ * Luhn checksum used by payment card numbers
+ */
+export function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 IBAN check: move the country code and check digits to the end, map letters to 10-35, mod 97 must be 1
+ */
+export function isValidIban(value: string): boolean {
+  const iban = value.replace(/\s+/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const code = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+const PII_DETECTORS: Record<PiiEntityType, { pattern: RegExp; isValid?: (value: string) => boolean }> = {
+  email: { pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi },
+  iban: { pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, isValid: isValidIban },
+  credit_card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    isValid: (value) => isValidLuhn(value.replace(/\D/g, '')),
+  },
+  phone: {
+    pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\b\d{2,4}(?:[ .-]?\d{2,4}){1,3}\b/g,
+    isValid: (value) => {
+      const digits = value.replace(/\D/g, '').length;
+      // Bare digit runs are more often order numbers than phone numbers
+      return digits >= 10 && digits <= 15 && (/^\+/.test(value) || /[ ().-]/.test(value));
+    },
+  },
+  address: {
+    pattern:
+      /\b\d{1,5}(?: [A-Z][a-z]+){1,3} (?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq)\b(?:,? (?:Apt|Suite|Unit) \w+)?/g,
+  },
+};
+
+/**
+ * Find PII in a text. Entity types are checked in PII_ENTITY_TYPES order and a match never overlaps an earlier
+ * one, so a card number is not also reported as a phone number. Matches are returned in text order.
+ */
+export function detectPii(text: string, entities: readonly PiiEntityType[] = PII_ENTITY_TYPES): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+
+  for (const type of PII_ENTITY_TYPES.filter((entity) => entities.includes(entity))) {
+    const { pattern, isValid } = PII_DETECTORS[type];
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      const overlaps = matches.some((existing) => start < existing.end && end > existing.start);
+      if (!overlaps && (!isValid || isValid(match[0]))) {
+        matches.push({ type, value: match[0], start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+export function countPii(matches: PiiMatch[]): PiiCounts {
+  const counts: PiiCounts = {};
+  for (const match of matches) {
+    counts[match.type] = (counts[match.type] ?? 0) + 1;
+  }
+
+  return counts;
+}
+
+function replacePii(text: string, matches: PiiMatch[], replacement: (match: PiiMatch) => string): string {
+  let result = '';
+  let position = 0;
+  for (const match of matches) {
+    result += text.slice(position, match.start) + replacement(match);
+    position = match.end;
+  }
+
+  return result + text.slice(position);
+}
+
+/**
+ * Replace each PII value (or only those `filter` accepts) with its type, e.g. `[EMAIL]`
+ */
+export function maskPii(text: string, entities?: readonly PiiEntityType[], filter?: (match: PiiMatch) => boolean): string {
+  const matches = detectPii(text, entities).filter((match) => !filter || filter(match));
+  return replacePii(text, matches, (match) => `[${match.type.toUpperCase()}]`);
+}
+
+/**
+ * Reversible redaction for one query: each distinct value gets a numbered placeholder (`[EMAIL_1]`), shared by
+ * every text tokenized with the same tokenizer, and `restore` puts the values back
+ */
+export interface PiiTokenizer {
+  tokenize(text: string): string;
+  restore(text: string): string;
+  /** Restore a streamed prefix, holding back a placeholder that may still be incomplete */
+  restorePartial(text: string): string;
+}
+
+const PII_TOKEN = /\[(?:EMAIL|IBAN|CREDIT_CARD|PHONE|ADDRESS)_\d+\]/g;
+
+export function createPiiTokenizer(entities?: readonly PiiEntityType[]): PiiTokenizer {
+  const tokensByValue = new Map<string, string>();
+  const valuesByToken = new Map<string, string>();
+  const nextIndex: PiiCounts = {};
+
+  const restore = (text: string): string => text.replace(PII_TOKEN, (token) => valuesByToken.get(token) ?? token);
+
+  return {
+    tokenize(text: string): string {
+      return replacePii(text, detectPii(text, entities), (match) => {
+        let token = tokensByValue.get(match.value);
+        if (!token) {
+          nextIndex[match.type] = (nextIndex[match.type] ?? 0) + 1;
+          token = `[${match.type.toUpperCase()}_${nextIndex[match.type]}]`;
+          tokensByValue.set(match.value, token);
+          valuesByToken.set(token, match.value);
+        }
+        return token;
+      });
+    },
+
+    restore,
+
+    restorePartial(text: string): string {
+      return restore(text.replace(/\[[A-Z_]*\d*$/, ''));
+    },
+  };
+}
+
+/**
+ * Read the PII policy from PII_ENTITIES (comma-separated, default all types), PII_LLM_POLICY (default `tokenize`)
+ * and PII_LOG_POLICY (default `mask`)
+ */
+export function getPiiPolicy(): PiiPolicy {
+  const configured = (process.env.PII_ENTITIES ?? '')
+    .split(',')
+    .map((entity) => entity.trim())
+    .filter(Boolean);
+  for (const entity of configured) {
+    if (!(PII_ENTITY_TYPES as readonly string[]).includes(entity)) {
+      throw new Error(`Unknown PII entity type "${entity}" in PII_ENTITIES (expected ${PII_ENTITY_TYPES.join(', ')})`);
+    }
+  }
+
+  const llm = process.env.PII_LLM_POLICY || 'tokenize';
+  if (!['none', 'mask', 'tokenize'].includes(llm)) {
+    throw new Error(`PII_LLM_POLICY must be none, mask or tokenize, got "${llm}"`);
+  }
+  const logs = process.env.PII_LOG_POLICY || 'mask';
+  if (!['none', 'mask'].includes(logs)) {
+    throw new Error(`PII_LOG_POLICY must be none or mask, got "${logs}"`);
+  }
+
+  return {
+    entities: configured.length > 0 ? (configured as PiiEntityType[]) : [...PII_ENTITY_TYPES],
+    llm: llm as PiiAction,
+    logs: logs as PiiPolicy['logs'],
+  };
+}
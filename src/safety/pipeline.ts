@@ -0,0 +1,179 @@
+import { RiskLevel } from '../constants';
+import type { SafetyCheck } from '../types';
+import { compileRule, getSafetyRulesDir, loadRulePacks, type AllowRule, type RulePack } from './rules';
+
+export interface SafetyRuleMatch {
+  rule_id: string;
+  score: number;
+  risk_level: RiskLevel;
+  fail?: boolean;
+}
+
+/**
+ * One stage of the safety pipeline; rule packs are compiled into detectors, and custom ones (e.g. a hosted
+ * moderation classifier) can be added through setSafetyPipeline
+ */
+export interface SafetyDetector {
+  id: string;
+  detect(query: string): SafetyRuleMatch[];
+}
+
+export interface SafetyPipeline {
+  detectors: SafetyDetector[];
+  check(query: string): SafetyCheck;
+}
+
+interface SafetyPipelineOptions {
+  detectors: SafetyDetector[];
+  allowRules?: AllowRule[];
+  /** Combined scores at or above these raise the risk level, whatever the matched rules' own levels */
+  mediumThreshold?: number;
+  highThreshold?: number;
+}
+
+const RISK_ORDER = [RiskLevel.LOW, RiskLevel.MEDIUM, RiskLevel.HIGH];
+
+function maxRisk(a: RiskLevel, b: RiskLevel): RiskLevel {
+  return RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+}
+
+/**
+ * Split text at `.`, `!` or `?` followed by whitespace, so allow rules only excuse the sentence they matched
+ */
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?])\s+/).filter((sentence) => sentence.trim().length > 0);
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Compile a rule pack into a detector that reports every matching rule
+ */
+export function createRulePackDetector(pack: RulePack): SafetyDetector {
+  const rules = pack.rules.map((rule) => ({ rule, matches: compileRule(rule) }));
+
+  return {
+    id: pack.id,
+    detect(query: string): SafetyRuleMatch[] {
+      return rules
+        .filter(({ matches }) => matches(query))
+        .map(({ rule }) => ({ rule_id: rule.id, score: rule.score, risk_level: rule.risk_level, fail: rule.fail }));
+    },
+  };
+}
+
+/**
+ * Run every detector over a query and combine the results. Matches suppressed by an allow rule (found only in the
+ * sentences its pattern matched) are dropped; each
+ * detector scores the highest of its remaining matches, and the detector scores combine as independent signals
+ * (1 - Π(1 - score)). The risk level is the highest of the matched rules' levels and the combined-score threshold;
+ * the check fails at HIGH risk or when a `fail` rule matched.
+ */
+export function createSafetyPipeline(options: SafetyPipelineOptions): SafetyPipeline {
+  const allowRules = (options.allowRules ?? []).map((allow) => ({
+    allow,
+    regex: new RegExp(allow.pattern, (allow.flags ?? '').replace('g', '')),
+  }));
+  const mediumThreshold = options.mediumThreshold ?? 0.5;
+  const highThreshold = options.highThreshold ?? 0.9;
+
+  const suppressingRules = (ruleId: string) =>
+    allowRules.filter(({ allow }) =>
+      allow.suppresses.some((id) => (id.endsWith('*') ? ruleId.startsWith(id.slice(0, -1)) : id === ruleId))
+    );
+
+  // A match is only suppressed when it comes from the sentences the allow rule matched: "I got hacked" must not
+  // excuse "How do I hack into my neighbour's email?" in the same message
+  const isSuppressed = (detector: SafetyDetector, ruleId: string, query: string): boolean =>
+    suppressingRules(ruleId).some(({ regex }) => {
+      const sentences = splitSentences(query);
+      const outside = sentences.filter((sentence) => !regex.test(sentence));
+      return (
+        outside.length < sentences.length &&
+        !detector.detect(outside.join(' ')).some((match) => match.rule_id === ruleId)
+      );
+    });
+
+  return {
+    detectors: options.detectors,
+
+    check(query: string): SafetyCheck {
+      const triggeredRules: string[] = [];
+      const suppressedRules: string[] = [];
+      const detectorScores: Record<string, number> = {};
+      let riskLevel = RiskLevel.LOW;
+      let failed = false;
+      let clearProbability = 1;
+
+      for (const detector of options.detectors) {
+        let detectorScore = 0;
+        for (const match of detector.detect(query ?? '')) {
+          if (isSuppressed(detector, match.rule_id, query ?? '')) {
+            suppressedRules.push(match.rule_id);
+            continue;
+          }
+
+          triggeredRules.push(match.rule_id);
+          detectorScore = Math.max(detectorScore, match.score);
+          riskLevel = maxRisk(riskLevel, match.risk_level);
+          failed = failed || Boolean(match.fail);
+        }
+
+        if (detectorScore > 0) {
+          detectorScores[detector.id] = roundScore(detectorScore);
+          clearProbability *= 1 - detectorScore;
+        }
+      }
+
+      const score = roundScore(1 - clearProbability);
+      if (score >= highThreshold) {
+        riskLevel = RiskLevel.HIGH;
+      } else if (score >= mediumThreshold) {
+        riskLevel = maxRisk(riskLevel, RiskLevel.MEDIUM);
+      }
+
+      return {
+        passed: !failed && riskLevel !== RiskLevel.HIGH,
+        risk_level: riskLevel,
+        score,
+        triggered_rules: triggeredRules,
+        ...(Object.keys(detectorScores).length > 0 && { detector_scores: detectorScores }),
+        ...(suppressedRules.length > 0 && { suppressed_rules: suppressedRules }),
+      };
+    },
+  };
+}
+
+/**
+ * Build the pipeline from every rule pack in a directory
+ */
+export function loadSafetyPipeline(directory: string): SafetyPipeline {
+  const packs = loadRulePacks(directory);
+
+  return createSafetyPipeline({
+    detectors: packs.map(createRulePackDetector),
+    allowRules: packs.flatMap((pack) => pack.allow ?? []),
+  });
+}
+
+let configuredPipeline: SafetyPipeline | undefined;
+
+/**
+ * Override the safety pipeline (pass nothing to reload the rule packs from SAFETY_RULES_DIR)
+ */
+export function setSafetyPipeline(pipeline?: SafetyPipeline): void {
+  configuredPipeline = pipeline;
+}
+
+/**
+ * Get the safety pipeline, built once from the rule packs in SAFETY_RULES_DIR (default `config/safety-rules`)
+ */
+export function getSafetyPipeline(): SafetyPipeline {
+  if (!configuredPipeline) {
+    configuredPipeline = loadSafetyPipeline(getSafetyRulesDir());
+  }
+
+  return configuredPipeline;
+}
@@ -1,4 +1,5 @@
 import { SupportResponse } from "../types";
+import { SUPPORT_RESPONSE_SCHEMA, validateSchema, type SchemaValidationError } from "./schema";
 
 /**
  * Parse JSON response from LLM, handling removal of potential markdown code blocks if present
@@ -19,26 +20,104 @@ export function parseJSONResponse(text: string): SupportResponse {
 }
   
 /**
- * Validate response structure
+ * Thrown when a response does not match SUPPORT_RESPONSE_SCHEMA; carries every field-level error
  */
-export function validateResponse(response: SupportResponse): void {
-  if (!response.answer || typeof response.answer !== 'string') {
-    throw new Error('Missing or invalid answer field');
+export class ResponseValidationError extends Error {
+  readonly errors: SchemaValidationError[];
+
+  constructor(errors: SchemaValidationError[]) {
+    super(`Invalid response: ${errors.map((error) => `${error.path} ${error.message}`).join('; ')}`);
+    this.name = 'ResponseValidationError';
+    this.errors = errors;
   }
+}
 
-  if (typeof response.confidence !== 'number' || response.confidence < 0 || response.confidence > 1) {
-    throw new Error('Confidence must be a number between 0 and 1');
+/**
+ * Validate response structure against SUPPORT_RESPONSE_SCHEMA, reporting all errors at once
+ */
+export function validateResponse(response: unknown): asserts response is SupportResponse {
+  const errors = validateSchema(response, SUPPORT_RESPONSE_SCHEMA);
+  if (errors.length > 0) {
+    throw new ResponseValidationError(errors);
   }
+}
 
-  if (!Array.isArray(response.actions)) {
-    throw new Error('Actions must be an array');
+/**
+ * Extract the (possibly incomplete) "answer" string from a partially streamed JSON response.
+ * Returns the decoded text received so far, stopping before any escape sequence that is still incomplete.
+ */
+export function extractPartialAnswer(partialJSON: string): string {
+  const match = /"answer"\s*:\s*"/.exec(partialJSON);
+  if (!match) {
+    return '';
   }
 
-  if (!response.category || typeof response.category !== 'string') {
-    throw new Error('Missing or invalid category field');
+  let answer = '';
+  let index = match.index + match[0].length;
+  while (index < partialJSON.length) {
+    const char = partialJSON[index];
+    if (char === '"') {
+      break;
+    }
+
+    if (char !== '\\') {
+      answer += char;
+      index++;
+      continue;
+    }
+
+    const escapeLength = partialJSON[index + 1] === 'u' ? 6 : 2;
+    const escape = partialJSON.slice(index, index + escapeLength);
+    if (escape.length < escapeLength) {
+      break;
+    }
+
+    try {
+      answer += JSON.parse(`"${escape}"`);
+    } catch {
+      break;
+    }
+    index += escapeLength;
   }
 
-  if (!Array.isArray(response.tags)) {
-    throw new Error('Tags must be an array');
+  return answer;
+}
+
+function isJSONObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Attempt cheap local fixes on a malformed LLM response before asking the model again:
+ * trailing commas, a numeric confidence given as a string, a single string where an array is expected,
+ * and properties the schema does not allow. Throws ResponseValidationError when the fixes aren't enough.
+ */
+export function repairJSONResponse(text: string): SupportResponse {
+  const withoutTrailingCommas = text.replace(/,(\s*[}\]])/g, '$1');
+  const repaired: unknown = parseJSONResponse(withoutTrailingCommas);
+  if (!isJSONObject(repaired)) {
+    throw new Error('Response must be a JSON object');
+  }
+
+  if (typeof repaired.confidence === 'string' && repaired.confidence.trim() !== '') {
+    const confidence = Number(repaired.confidence);
+    if (!Number.isNaN(confidence)) {
+      repaired.confidence = confidence;
+    }
   }
+
+  for (const field of ['actions', 'tags', 'citations']) {
+    if (typeof repaired[field] === 'string') {
+      repaired[field] = [repaired[field]];
+    }
+  }
+
+  for (const key of Object.keys(repaired)) {
+    if (!(key in SUPPORT_RESPONSE_SCHEMA.properties)) {
+      delete repaired[key];
+    }
+  }
+
+  validateResponse(repaired);
+  return repaired;
 }
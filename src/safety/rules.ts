@@ -0,0 +1,138 @@
+import path from 'path';
+import { readdirSync, readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { RiskLevel } from '../constants';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const DEFAULT_SAFETY_RULES_DIR = path.join(__dirname, '..', '..', 'config', 'safety-rules');
+
+interface BaseRule {
+  id: string;
+  /** How strongly a match indicates abuse, from 0 to 1 */
+  score: number;
+  risk_level: RiskLevel;
+  /** Fail the check on a match even below HIGH risk (e.g. empty input) */
+  fail?: boolean;
+}
+
+export type SafetyRule = BaseRule &
+  (
+    | { type: 'regex'; pattern: string; flags?: string }
+    | { type: 'keyword'; keywords: string[] }
+    | { type: 'length'; min?: number; max?: number }
+    | { type: 'special_characters'; max_ratio: number }
+  );
+
+export interface AllowRule {
+  id: string;
+  pattern: string;
+  flags?: string;
+  /** Rule ids whose matches are dropped when the pattern matches; a trailing `*` matches a prefix */
+  suppresses: string[];
+}
+
+/**
+ * A rule-pack file: one detector's rules and its allow-list exceptions
+ */
+export interface RulePack {
+  id: string;
+  description?: string;
+  rules: SafetyRule[];
+  allow?: AllowRule[];
+}
+
+const RISK_LEVELS = Object.values(RiskLevel) as string[];
+
+const SPECIAL_CHARACTERS = /[<>{}[\]\\\/|`~!@#$%^&*+=]/g;
+
+/**
+ * Whether a rule matches the query
+ */
+export type RuleMatcher = (query: string) => boolean;
+
+/**
+ * Compile a rule into a matcher
+ */
+export function compileRule(rule: SafetyRule): RuleMatcher {
+  switch (rule.type) {
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, (rule.flags ?? '').replace('g', ''));
+      return (query) => regex.test(query);
+    }
+    case 'keyword': {
+      const keywords = rule.keywords.map((keyword) => keyword.toLowerCase());
+      return (query) => {
+        const lowerQuery = query.toLowerCase();
+        return keywords.some((keyword) => lowerQuery.includes(keyword));
+      };
+    }
+    case 'length':
+      return (query) =>
+        (rule.min !== undefined && query.trim().length < rule.min) || (rule.max !== undefined && query.length > rule.max);
+    case 'special_characters':
+      return (query) =>
+        query.length > 0 && (query.match(SPECIAL_CHARACTERS)?.length ?? 0) / query.length > rule.max_ratio;
+  }
+}
+
+function validateRulePack(pack: RulePack, filePath: string): void {
+  if (!pack.id || !Array.isArray(pack.rules)) {
+    throw new Error(`Rule pack needs an "id" and a "rules" array: ${filePath}`);
+  }
+
+  for (const rule of pack.rules) {
+    if (!rule.id || !(rule.score >= 0 && rule.score <= 1) || !RISK_LEVELS.includes(rule.risk_level)) {
+      throw new Error(`Rule "${rule.id ?? '?'}" needs an id, a score from 0 to 1 and a risk_level: ${filePath}`);
+    }
+    if (!['regex', 'keyword', 'length', 'special_characters'].includes(rule.type)) {
+      throw new Error(`Rule "${rule.id}" has an unknown type "${(rule as { type?: string }).type}": ${filePath}`);
+    }
+    try {
+      compileRule(rule);
+    } catch (error) {
+      throw new Error(`Rule "${rule.id}" is invalid: ${error instanceof Error ? error.message : error} (${filePath})`);
+    }
+  }
+
+  for (const allow of pack.allow ?? []) {
+    if (!allow.id || !allow.pattern || !Array.isArray(allow.suppresses)) {
+      throw new Error(`Allow rule "${allow.id ?? '?'}" needs an id, a pattern and a "suppresses" list: ${filePath}`);
+    }
+    new RegExp(allow.pattern, allow.flags);
+  }
+}
+
+/**
+ * Load every `.json` rule pack in a directory, in file name order. Rule ids must be unique across packs.
+ */
+export function loadRulePacks(directory: string): RulePack[] {
+  const packs: RulePack[] = [];
+  const ruleIds = new Set<string>();
+
+  for (const name of readdirSync(directory).sort()) {
+    if (!name.endsWith('.json')) {
+      continue;
+    }
+
+    const filePath = path.join(directory, name);
+    const pack = JSON.parse(readFileSync(filePath, 'utf-8')) as RulePack;
+    pack.id = pack.id || path.basename(name, '.json');
+    validateRulePack(pack, filePath);
+
+    for (const rule of pack.rules) {
+      if (ruleIds.has(rule.id)) {
+        throw new Error(`Rule "${rule.id}" is defined more than once: ${filePath}`);
+      }
+      ruleIds.add(rule.id);
+    }
+    packs.push(pack);
+  }
+
+  return packs;
+}
+
+export function getSafetyRulesDir(): string {
+  return process.env.SAFETY_RULES_DIR || DEFAULT_SAFETY_RULES_DIR;
+}
@@ -0,0 +1,210 @@
+import { SUPPORT_CATEGORIES } from '../constants';
+
+/**
+ * The subset of JSON Schema used to describe LLM responses.
+ * Schemas written with it are both validated locally and sent to the model as structured-output schemas.
+ */
+export type SchemaNode =
+  | {
+      type: 'string';
+      description?: string;
+      enum?: readonly string[];
+      minLength?: number;
+      maxLength?: number;
+    }
+  | {
+      type: 'number';
+      description?: string;
+      minimum?: number;
+      maximum?: number;
+    }
+  | {
+      type: 'array';
+      description?: string;
+      items: SchemaNode;
+      minItems?: number;
+      maxItems?: number;
+    }
+  | {
+      type: 'object';
+      description?: string;
+      properties: Record<string, SchemaNode>;
+      required: readonly string[];
+      additionalProperties: boolean;
+    };
+
+export interface SchemaValidationError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Single source of truth for the SupportResponse shape, used by the prompt, the validator and the API request
+ */
+export const SUPPORT_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    answer: {
+      type: 'string',
+      description: 'Clear, concise answer to the question (2-3 sentences)',
+      minLength: 1,
+      maxLength: 1000,
+    },
+    confidence: {
+      type: 'number',
+      description: 'How certain the answer is, from 0.0 to 1.0',
+      minimum: 0,
+      maximum: 1,
+    },
+    actions: {
+      type: 'array',
+      description: 'Specific steps the customer should take',
+      items: { type: 'string', minLength: 1, maxLength: 200 },
+      maxItems: 10,
+    },
+    category: {
+      type: 'string',
+      description: 'Category of the question',
+      enum: SUPPORT_CATEGORIES,
+    },
+    tags: {
+      type: 'array',
+      description: 'Relevant keywords (2-4 recommended)',
+      items: { type: 'string', minLength: 1, maxLength: 50 },
+      minItems: 1,
+      maxItems: 6,
+    },
+    citations: {
+      type: 'array',
+      description: 'Ids of the help-center articles the answer relies on (empty when none were provided or used)',
+      items: { type: 'string', minLength: 1, maxLength: 200 },
+      maxItems: 10,
+    },
+  },
+  required: ['answer', 'confidence', 'actions', 'category', 'tags'],
+  additionalProperties: false,
+} as const satisfies SchemaNode;
+
+/**
+ * Keywords OpenAI strict structured outputs does not accept; they are still enforced by validateSchema
+ */
+const VALIDATION_ONLY_KEYWORDS = ['minLength', 'maxLength', 'minimum', 'maximum', 'minItems', 'maxItems'];
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Validate a value against a schema, collecting every error with its JSON path
+ */
+export function validateSchema(value: unknown, schema: SchemaNode, path = '$'): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push({ path, message: `must be a string, got ${describeType(value)}` });
+        break;
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        errors.push({ path, message: `must be one of: ${schema.enum.join(', ')}` });
+      }
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+        errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        errors.push({ path, message: `must be a number, got ${describeType(value)}` });
+        break;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}` });
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}` });
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push({ path, message: `must be an array, got ${describeType(value)}` });
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path, message: `must have at least ${schema.minItems} items` });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+      }
+      value.forEach((item, index) => {
+        errors.push(...validateSchema(item, schema.items, `${path}[${index}]`));
+      });
+      break;
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push({ path, message: `must be an object, got ${describeType(value)}` });
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required) {
+        if (!(key in record) || record[key] === undefined) {
+          errors.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+      for (const [key, propertyValue] of Object.entries(record)) {
+        const propertySchema = schema.properties[key];
+        if (propertySchema) {
+          if (propertyValue !== undefined) {
+            errors.push(...validateSchema(propertyValue, propertySchema, `${path}.${key}`));
+          }
+        } else if (!schema.additionalProperties) {
+          errors.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+        }
+      }
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Emit a schema as plain JSON Schema. With `strict`, keywords unsupported by OpenAI strict mode are dropped and
+ * every property is required, as strict mode demands; optional arrays can still be sent empty.
+ */
+export function toJSONSchema(schema: SchemaNode, options: { strict?: boolean } = {}): Record<string, unknown> {
+  const jsonSchema: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (options.strict && VALIDATION_ONLY_KEYWORDS.includes(key)) {
+      continue;
+    }
+
+    if (key === 'items') {
+      jsonSchema.items = toJSONSchema(value as SchemaNode, options);
+    } else if (key === 'required' && options.strict) {
+      jsonSchema.required = Object.keys((schema as { properties: Record<string, SchemaNode> }).properties);
+    } else if (key === 'properties') {
+      jsonSchema.properties = Object.fromEntries(
+        Object.entries(value as Record<string, SchemaNode>).map(([name, property]) => [
+          name,
+          toJSONSchema(property, options),
+        ])
+      );
+    } else {
+      jsonSchema[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+
+  return jsonSchema;
+}
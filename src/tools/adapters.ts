@@ -0,0 +1,110 @@
+import { promises as fs } from 'fs';
+
+export type OrderStatus = 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'returned';
+
+export interface OrderRecord {
+  id: string;
+  account_id: string;
+  status: OrderStatus;
+  placed_at: string;
+  shipped_at?: string;
+  delivered_at?: string;
+  estimated_delivery?: string;
+  carrier?: string;
+  tracking_number?: string;
+  total: number;
+  currency: string;
+  items: Array<{
+    sku: string;
+    name: string;
+    quantity: number;
+    /** False for digital products and gift cards */
+    refundable?: boolean;
+  }>;
+  /** Set once a refund was issued */
+  refunded_at?: string;
+}
+
+export type AccountStatus = 'active' | 'locked' | 'suspended' | 'closed';
+
+export interface AccountRecord {
+  id: string;
+  email: string;
+  status: AccountStatus;
+  created_at: string;
+  plan?: string;
+  two_factor_enabled?: boolean;
+}
+
+/**
+ * Backend the support tools read orders and accounts from
+ */
+export interface SupportDataAdapter {
+  readonly name: string;
+  getOrder(orderId: string, signal?: AbortSignal): Promise<OrderRecord | undefined>;
+  /** Look an account up by id or by email address (case-insensitive) */
+  findAccount(query: { accountId?: string; email?: string }, signal?: AbortSignal): Promise<AccountRecord | undefined>;
+}
+
+/**
+ * Orders and accounts as stored by the file and in-memory adapters
+ */
+export interface SupportData {
+  orders: OrderRecord[];
+  accounts: AccountRecord[];
+}
+
+function findInData(data: SupportData, query: { accountId?: string; email?: string }): AccountRecord | undefined {
+  const email = query.email?.toLowerCase();
+  return data.accounts.find(
+    (account) => (query.accountId !== undefined && account.id === query.accountId) || account.email.toLowerCase() === email
+  );
+}
+
+/**
+ * Serve orders and accounts from process memory
+ */
+export function createInMemorySupportDataAdapter(data: SupportData): SupportDataAdapter {
+  return {
+    name: 'memory',
+
+    async getOrder(orderId: string): Promise<OrderRecord | undefined> {
+      const order = data.orders.find((candidate) => candidate.id === orderId);
+      return order && structuredClone(order);
+    },
+
+    async findAccount(query: { accountId?: string; email?: string }): Promise<AccountRecord | undefined> {
+      const account = findInData(data, query);
+      return account && structuredClone(account);
+    },
+  };
+}
+
+/**
+ * Serve orders and accounts from a JSON file of SupportData, read on every lookup so edits apply immediately
+ */
+export function createFileSupportDataAdapter(filePath: string): SupportDataAdapter {
+  async function load(): Promise<SupportData> {
+    try {
+      const data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      return { orders: data.orders ?? [], accounts: data.accounts ?? [] };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { orders: [], accounts: [] };
+      }
+      throw error;
+    }
+  }
+
+  return {
+    name: 'file',
+
+    async getOrder(orderId: string): Promise<OrderRecord | undefined> {
+      return (await load()).orders.find((order) => order.id === orderId);
+    },
+
+    async findAccount(query: { accountId?: string; email?: string }): Promise<AccountRecord | undefined> {
+      return findInData(await load(), query);
+    },
+  };
+}
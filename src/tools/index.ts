@@ -0,0 +1,68 @@
+import { createFileSupportDataAdapter, type SupportDataAdapter } from './adapters';
+import { createToolRegistry, type ToolRegistry } from './registry';
+import { createSupportTools } from './support';
+
+export * from './adapters';
+export * from './registry';
+export * from './support';
+
+export interface ToolsConfig {
+  enabled: boolean;
+  /** Rounds of tool calls before the model must answer */
+  maxIterations: number;
+  /** Time limit for one tool call, unless the tool sets its own */
+  timeoutMs: number;
+}
+
+/**
+ * Read the tool calling configuration from TOOLS_ENABLED, TOOLS_MAX_ITERATIONS and TOOLS_TIMEOUT_MS
+ */
+export function getToolsConfig(): ToolsConfig {
+  return {
+    enabled: process.env.TOOLS_ENABLED !== 'false',
+    maxIterations: Number.parseInt(process.env.TOOLS_MAX_ITERATIONS ?? '3', 10),
+    timeoutMs: Number.parseInt(process.env.TOOLS_TIMEOUT_MS ?? '5000', 10),
+  };
+}
+
+let configuredAdapter: SupportDataAdapter | undefined;
+let configuredRegistry: ToolRegistry | undefined;
+
+/**
+ * Get the adapter the support tools read from: one set with setSupportDataAdapter, or else a JSON file at
+ * TOOLS_DATA_FILE. Undefined when neither is configured, so sample orders are never served as live data.
+ */
+export function getSupportDataAdapter(): SupportDataAdapter | undefined {
+  if (!configuredAdapter && process.env.TOOLS_DATA_FILE) {
+    configuredAdapter = createFileSupportDataAdapter(process.env.TOOLS_DATA_FILE);
+  }
+
+  return configuredAdapter;
+}
+
+/**
+ * Override the support data adapter (pass nothing to go back to TOOLS_DATA_FILE)
+ */
+export function setSupportDataAdapter(adapter?: SupportDataAdapter): void {
+  configuredAdapter = adapter;
+}
+
+/**
+ * Get the tools offered to the model: the registry set with setToolRegistry, or else the support tools over the
+ * configured adapter. Undefined when neither is configured, and no tools are offered.
+ */
+export function getToolRegistry(): ToolRegistry | undefined {
+  if (configuredRegistry) {
+    return configuredRegistry;
+  }
+
+  const adapter = getSupportDataAdapter();
+  return adapter && createToolRegistry(createSupportTools(adapter));
+}
+
+/**
+ * Override the tool registry (pass nothing to go back to the support tools)
+ */
+export function setToolRegistry(registry?: ToolRegistry): void {
+  configuredRegistry = registry;
+}
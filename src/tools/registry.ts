@@ -0,0 +1,128 @@
+import { UpstreamTimeoutError, withTimeout, type ToolCall, type ToolDefinition } from '../providers';
+import { toJSONSchema, validateSchema, type SchemaNode } from '../safety';
+
+export interface ToolContext {
+  /** Aborted when the call times out */
+  signal: AbortSignal;
+  requestId?: string;
+}
+
+/**
+ * A function the model can call. Arguments are validated against `parameters` before the handler runs,
+ * so the handler can trust their shape. The registry holds tools as `Tool<unknown>`.
+ */
+export interface Tool<Args = unknown, Result = unknown> {
+  name: string;
+  /** Tells the model when to call the tool */
+  description: string;
+  parameters: Extract<SchemaNode, { type: 'object' }>;
+  /** Time limit for one call (default TOOLS_TIMEOUT_MS) */
+  timeoutMs?: number;
+  handler(args: Args, context: ToolContext): Promise<Result>;
+}
+
+export type ToolRegistry = ReadonlyMap<string, Tool>;
+
+export type ToolCallOutcome = 'ok' | 'error' | 'timeout' | 'invalid_arguments' | 'unknown_tool';
+
+/**
+ * One tool call made while answering a query
+ */
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  /** Parsed arguments, or the raw text when the model sent invalid JSON */
+  arguments: unknown;
+  outcome: ToolCallOutcome;
+  result?: unknown;
+  error?: string;
+  latency_ms: number;
+}
+
+/**
+ * Type-check a handler against its argument type, and widen the tool to the `Tool<unknown>` the registry holds
+ */
+export function defineTool<Args, Result>(tool: Tool<Args, Result>): Tool {
+  return tool;
+}
+
+export function createToolRegistry(tools: Tool[]): ToolRegistry {
+  const registry = new Map<string, Tool>();
+  for (const tool of tools) {
+    if (!/^[A-Za-z0-9_-]{1,64}$/.test(tool.name)) {
+      throw new Error(`Invalid tool name: ${tool.name}`);
+    }
+    if (registry.has(tool.name)) {
+      throw new Error(`Duplicate tool name: ${tool.name}`);
+    }
+    registry.set(tool.name, tool);
+  }
+
+  return registry;
+}
+
+/**
+ * Describe the registered tools in the OpenAI `tools` format
+ */
+export function toToolDefinitions(registry: ToolRegistry): ToolDefinition[] {
+  return [...registry.values()].map((tool) => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: toJSONSchema(tool.parameters) },
+  }));
+}
+
+/**
+ * Run one tool call the model asked for. Failures are recorded rather than thrown, so the model can be told
+ * about them and answer anyway.
+ */
+export async function runToolCall(
+  registry: ToolRegistry,
+  call: ToolCall,
+  options: { timeoutMs: number; requestId?: string }
+): Promise<ToolCallRecord> {
+  const startTime = Date.now();
+  const record = (fields: Pick<ToolCallRecord, 'arguments' | 'outcome' | 'result' | 'error'>): ToolCallRecord => ({
+    id: call.id,
+    name: call.function.name,
+    ...fields,
+    latency_ms: Date.now() - startTime,
+  });
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.function.arguments || '{}');
+  } catch {
+    return record({ arguments: call.function.arguments, outcome: 'invalid_arguments', error: 'Arguments are not valid JSON' });
+  }
+
+  const tool = registry.get(call.function.name);
+  if (!tool) {
+    return record({ arguments: args, outcome: 'unknown_tool', error: `Unknown tool: ${call.function.name}` });
+  }
+
+  const errors = validateSchema(args, tool.parameters);
+  if (errors.length > 0) {
+    const error = errors.map((validationError) => `${validationError.path} ${validationError.message}`).join('; ');
+    return record({ arguments: args, outcome: 'invalid_arguments', error });
+  }
+
+  const timeoutMs = tool.timeoutMs ?? options.timeoutMs;
+  try {
+    const result = await withTimeout(timeoutMs, (signal) =>
+      tool.handler(args, { signal, requestId: options.requestId })
+    );
+    return record({ arguments: args, outcome: 'ok', result });
+  } catch (error) {
+    if (error instanceof UpstreamTimeoutError) {
+      return record({ arguments: args, outcome: 'timeout', error: `Timed out after ${timeoutMs}ms` });
+    }
+    return record({ arguments: args, outcome: 'error', error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * The tool message content sent back to the model
+ */
+export function formatToolResult(record: ToolCallRecord): string {
+  return JSON.stringify(record.outcome === 'ok' ? record.result ?? null : { error: record.error });
+}
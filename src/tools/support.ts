@@ -0,0 +1,159 @@
+import type { SupportDataAdapter } from './adapters';
+import { defineTool, type Tool } from './registry';
+
+/**
+ * Days after delivery an unused item can be returned, per the refund policy article
+ */
+const RETURN_WINDOW_DAYS = 30;
+
+/**
+ * Days after delivery a damaged or wrong item can be reported, without sending it back
+ */
+const DAMAGE_REPORT_WINDOW_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REFUND_REASONS = ['unwanted', 'damaged', 'wrong_item'] as const;
+export type RefundReason = (typeof REFUND_REASONS)[number];
+
+/**
+ * Customers write "#12345" or "order 12345"; the id is the part without the decoration
+ */
+function normalizeOrderId(orderId: string): string {
+  return orderId.trim().replace(/^(?:order\s*)?#?\s*/i, '');
+}
+
+/**
+ * Order status, account status and refund eligibility lookups backed by `adapter`. Results carry status fields
+ * only, never contact or payment details, since they are shown to the model.
+ */
+export function createSupportTools(adapter: SupportDataAdapter): Tool[] {
+  const orderStatus = defineTool({
+    name: 'get_order_status',
+    description:
+      'Look up the live status of an order: whether it is processing, shipped, delivered, cancelled or returned, ' +
+      'with shipping dates and tracking. Use it whenever the customer asks where an order is.',
+    parameters: {
+      type: 'object',
+      properties: {
+        order_id: { type: 'string', description: 'Order number, e.g. "12345"', minLength: 1, maxLength: 64 },
+      },
+      required: ['order_id'],
+      additionalProperties: false,
+    },
+    async handler(args: { order_id: string }, { signal }) {
+      const orderId = normalizeOrderId(args.order_id);
+      const order = await adapter.getOrder(orderId, signal);
+      if (!order) {
+        return { found: false, order_id: orderId };
+      }
+
+      return {
+        found: true,
+        order_id: order.id,
+        status: order.status,
+        placed_at: order.placed_at,
+        shipped_at: order.shipped_at,
+        delivered_at: order.delivered_at,
+        estimated_delivery: order.estimated_delivery,
+        carrier: order.carrier,
+        tracking_number: order.tracking_number,
+        items: order.items.map(({ name, quantity }) => ({ name, quantity })),
+      };
+    },
+  });
+
+  const accountStatus = defineTool({
+    name: 'get_account_status',
+    description:
+      'Look up whether a customer account is active, locked, suspended or closed, and whether two-factor ' +
+      'authentication is on. Pass the account id or the email address the customer signed up with.',
+    parameters: {
+      type: 'object',
+      properties: {
+        account_id: { type: 'string', minLength: 1, maxLength: 64 },
+        email: { type: 'string', minLength: 3, maxLength: 254 },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    async handler(args: { account_id?: string; email?: string }, { signal }) {
+      if (!args.account_id && !args.email) {
+        throw new Error('Pass account_id or email');
+      }
+
+      const account = await adapter.findAccount({ accountId: args.account_id, email: args.email }, signal);
+      if (!account) {
+        return { found: false };
+      }
+
+      return {
+        found: true,
+        account_id: account.id,
+        status: account.status,
+        created_at: account.created_at,
+        plan: account.plan,
+        two_factor_enabled: account.two_factor_enabled,
+      };
+    },
+  });
+
+  const refundEligibility = defineTool({
+    name: 'check_refund_eligibility',
+    description:
+      'Check whether an order can be refunded under the refund policy: unused items within 30 days of delivery, ' +
+      'damaged or wrong items reported within 14 days. Use it before telling a customer they can get a refund.',
+    parameters: {
+      type: 'object',
+      properties: {
+        order_id: { type: 'string', description: 'Order number, e.g. "12345"', minLength: 1, maxLength: 64 },
+        reason: { type: 'string', enum: REFUND_REASONS, description: 'Why the customer wants a refund' },
+      },
+      required: ['order_id'],
+      additionalProperties: false,
+    },
+    async handler(args: { order_id: string; reason?: RefundReason }, { signal }) {
+      const orderId = normalizeOrderId(args.order_id);
+      const reason = args.reason ?? 'unwanted';
+      const order = await adapter.getOrder(orderId, signal);
+      if (!order) {
+        return { found: false, order_id: orderId };
+      }
+
+      const ineligible = (why: string) => ({ found: true, order_id: order.id, eligible: false, reason: why });
+
+      if (order.refunded_at) {
+        return ineligible(`already refunded on ${order.refunded_at.slice(0, 10)}`);
+      }
+      if (order.status === 'cancelled' || order.status === 'returned') {
+        return ineligible(`order is ${order.status}`);
+      }
+      if (order.status !== 'delivered' || !order.delivered_at) {
+        return ineligible('order has not been delivered yet; it can be cancelled instead');
+      }
+
+      const refundableItems = order.items.filter((item) => item.refundable !== false).map((item) => item.name);
+      if (refundableItems.length === 0) {
+        return ineligible("digital products and gift cards can't be refunded");
+      }
+
+      const damaged = reason === 'damaged' || reason === 'wrong_item';
+      const windowDays = damaged ? DAMAGE_REPORT_WINDOW_DAYS : RETURN_WINDOW_DAYS;
+      const windowEnds = new Date(Date.parse(order.delivered_at) + windowDays * DAY_MS);
+      if (Date.now() > windowEnds.getTime()) {
+        return ineligible(`the ${windowDays}-day window after delivery ended on ${windowEnds.toISOString().slice(0, 10)}`);
+      }
+
+      return {
+        found: true,
+        order_id: order.id,
+        eligible: true,
+        refundable_items: refundableItems,
+        window_ends: windowEnds.toISOString().slice(0, 10),
+        return_required: !damaged,
+      };
+    },
+  });
+
+  return [orderStatus, accountStatus, refundEligibility];
+}
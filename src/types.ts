@@ -1,11 +1,47 @@
-import { RiskLevel } from "./constants";
+import { RiskLevel, SupportCategory } from "./constants";
+import type { GroundingCheck } from "./knowledge/grounding";
+import type { OutputRemediation } from "./safety/output";
+import type { PiiCounts } from "./safety/pii";
+import type { ToolCallOutcome, ToolCallRecord } from "./tools/registry";
 
 export interface SupportResponse {
   answer: string;
   confidence: number;
   actions: string[];
-  category: string;
+  category: SupportCategory;
   tags: string[];
+  /** Ids of the help-center articles the answer relies on */
+  citations?: string[];
+}
+
+export type QueryOutcome = 'ok' | 'blocked' | 'error';
+
+/**
+ * One upstream call in a model fallback chain
+ */
+export interface ModelAttempt {
+  model: string;
+  outcome: 'ok' | 'error' | 'timeout' | 'skipped';
+  latency_ms: number;
+  error?: string;
+}
+
+/**
+ * How a `model: "auto"` query was routed
+ */
+export interface RoutingDecision {
+  model: string;
+  /** Why the model was chosen, e.g. `long_query`, `category:refund`, `risk:medium`, `max_cost` or `default` */
+  reasons: string[];
+  query_tokens: number;
+  /** Category detected from the question before the model classified it */
+  category: SupportCategory;
+  risk_level: RiskLevel;
+  estimated_cost_usd: number;
+  max_cost_usd?: number;
+  /** Set on the retry after a low-confidence answer: the model that gave it, and its confidence */
+  escalated_from?: string;
+  initial_confidence?: number;
 }
 
 export interface QueryMetrics {
@@ -16,18 +52,122 @@ export interface QueryMetrics {
   tokens_prompt: number;
   tokens_completion: number;
   total_tokens: number;
+  /** Prompt tokens served from the provider's prompt cache, charged at the cached-input price */
+  tokens_cached?: number;
   estimated_cost_usd: number;
+  /** Set when the pricing catalog has no price for the model: `estimated_cost_usd` is 0, or the fallback price for API keys */
+  unpriced?: boolean;
+  outcome?: QueryOutcome;
+  provider?: string;
+  /** Model that produced the answer; differs from the requested `model` after a fallback */
+  answering_model?: string;
+  /** Upstream calls made across the fallback chain */
+  model_attempts?: ModelAttempt[];
+  attempts?: number;
+  cache_hit?: boolean;
+  prompt_id?: string;
+  prompt_version?: string;
+  /** Model confidence of the returned answer */
+  confidence?: number;
+  experiment_id?: string;
+  experiment_variant?: string;
+  routing?: RoutingDecision;
+  /** How well the answer is supported by the retrieved passages (absent when retrieval is off or nothing was retrieved) */
+  grounding?: {
+    score: number;
+    claims: number;
+    unsupported: number;
+    judge_model?: string;
+    judge_cost_usd?: number;
+  };
+  /** Tools the model called, in call order (arguments and results are kept out of the logs) */
+  tool_calls?: Array<{ name: string; outcome: ToolCallOutcome; latency_ms: number }>;
   request_id?: string;
+  conversation_id?: string;
+  api_key_id?: string;
+  team?: string;
 }
 
 export interface SafetyCheck {
   passed: boolean;
   risk_level: RiskLevel;
-  reason?: string;
+  /** Combined score of all detectors, from 0 (clean) to 1 */
+  score: number;
+  /** Ids of every rule that matched and was not suppressed by an allow rule */
+  triggered_rules: string[];
+  /** Score of each detector that matched, by detector id */
+  detector_scores?: Record<string, number>;
+  /** Ids of rules that matched but were suppressed by an allow rule */
+  suppressed_rules?: string[];
+  /** PII found in the question, by entity type; it was redacted according to the PII policy */
+  pii_redactions?: PiiCounts;
+  /** What the output guard did to the response (output checks only) */
+  remediations?: OutputRemediation[];
 }
 
 export interface QueryResult {
   response: SupportResponse;
   metrics: QueryMetrics;
   safety: SafetyCheck;
+  /** Output guard check of the model's response (absent when no response was generated) */
+  output_safety?: SafetyCheck;
+  /** Confidence the model gave, before the output guard or the grounding check lowered it */
+  model_confidence?: number;
+  /** Model that produced the answer (absent for blocked and cached queries) */
+  answering_model?: string;
+  model_attempts?: ModelAttempt[];
+  /** Set when the answer was routed to the human review queue */
+  review?: { item_id: string; reasons: string[] };
+  /** Help-center passages given to the model (absent when retrieval is off or the query was blocked) */
+  retrieval?: {
+    index_version: string;
+    passages: Array<{ id: string; article_id: string; title: string; score: number }>;
+  };
+  /** Claims of the answer checked against the retrieved passages (absent when retrieval is off, nothing was retrieved or the answer was blocked) */
+  grounding?: GroundingCheck;
+  /** Tools the model called before answering, with their arguments and results */
+  tool_calls?: ToolCallRecord[];
+}
+
+export interface ConversationTurn {
+  request_id?: string;
+  timestamp: string;
+  question: string;
+  response: SupportResponse;
+  safety: SafetyCheck;
+}
+
+export interface Conversation {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  turns: ConversationTurn[];
+}
+
+export type ReviewStatus = 'pending' | 'claimed' | 'approved' | 'edited' | 'rejected';
+
+/**
+ * An answer waiting for (or given) a human review
+ */
+export interface ReviewItem {
+  id: string;
+  status: ReviewStatus;
+  created_at: string;
+  updated_at: string;
+  request_id?: string;
+  conversation_id?: string;
+  model: string;
+  question: string;
+  /** The answer as served to the customer */
+  response: SupportResponse;
+  safety: SafetyCheck;
+  output_safety?: SafetyCheck;
+  /** Ids of the review rules that routed the answer here */
+  reasons: string[];
+  reviewer?: string;
+  claimed_at?: string;
+  resolved_at?: string;
+  /** The reviewer's corrected answer (status `edited`) */
+  edited_response?: SupportResponse;
+  note?: string;
 }